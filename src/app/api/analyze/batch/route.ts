@@ -0,0 +1,105 @@
+/**
+ * API: batch token analysis.
+ * POST { mints: string[], ruleset?: string, concurrency?: number, refresh?: boolean }
+ * Runs the same pipeline as GET /api/analyze for every mint with a concurrency cap and a
+ * shared (memoized) provider, so calls repeated across mints hit upstream once.
+ * refresh: true bypasses the response cache (fresh data, written back to the cache).
+ * Results are saved as snapshots like single analyses.
+ * Add ?stream=1 (or Accept: application/x-ndjson) for NDJSON: one line per mint as it finishes.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeToken, errorHeaders, errorStatus } from "@/lib/analyze";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { createMemoProvider, getDataProvider, withCache } from "@/lib/providers";
+import type { RiskResult } from "@/lib/risk-score";
+import { loadRuleset } from "@/lib/scoring";
+import { recordSnapshot } from "@/lib/snapshots";
+import { envInt, isValidSolanaAddress } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+type BatchItem =
+  | { mint: string; ok: true; result: RiskResult }
+  | { mint: string; ok: false; status: number; error: string };
+
+export async function POST(request: NextRequest) {
+  let body: { mints?: unknown; ruleset?: unknown; concurrency?: unknown; refresh?: unknown };
+  try {
+    body = (await request.json()) as typeof body;
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON: { mints: string[] }" }, { status: 400 });
+  }
+  if (!Array.isArray(body.mints) || body.mints.length === 0 || !body.mints.every((m) => typeof m === "string")) {
+    return NextResponse.json({ error: "mints must be a non-empty array of mint addresses" }, { status: 400 });
+  }
+  const maxMints = envInt("BATCH_MAX_MINTS", 100);
+  const mints = [...new Set((body.mints as string[]).map((m) => m.trim()))];
+  if (mints.length > maxMints) {
+    return NextResponse.json({ error: `Too many mints (${mints.length}); limit is ${maxMints}` }, { status: 400 });
+  }
+  const maxConcurrency = envInt("BATCH_CONCURRENCY", 3);
+  const concurrency =
+    typeof body.concurrency === "number" && body.concurrency > 0
+      ? Math.min(Math.floor(body.concurrency), maxConcurrency)
+      : maxConcurrency;
+
+  const rulesetName = typeof body.ruleset === "string" ? body.ruleset.trim() || undefined : undefined;
+  try {
+    const ruleset = await loadRuleset(rulesetName);
+    if (!ruleset) {
+      return NextResponse.json(
+        { error: `Unknown ruleset "${rulesetName ?? process.env.RISK_RULESET}"` },
+        { status: 400 }
+      );
+    }
+    const provider = getDataProvider();
+    if (!provider.offline && !process.env.HELIUS_API_KEY?.trim()) {
+      return NextResponse.json(
+        { error: "Service not configured: HELIUS_API_KEY is missing" },
+        { status: 503 }
+      );
+    }
+    const shared = createMemoProvider(provider);
+    const refresh = body.refresh === true;
+
+    const analyzeOne = async (mint: string): Promise<BatchItem> => {
+      if (!isValidSolanaAddress(mint)) {
+        return { mint, ok: false, status: 400, error: "Invalid Solana address (expected 32–44 base58 characters)" };
+      }
+      try {
+        const result = await analyzeToken(mint, withCache(shared, { refresh }), ruleset);
+        if (!provider.offline) await recordSnapshot(result);
+        return { mint, ok: true, result };
+      } catch (err) {
+        return { mint, ok: false, status: errorStatus(err), error: err instanceof Error ? err.message : "Analysis error" };
+      }
+    };
+
+    const wantsStream =
+      request.nextUrl.searchParams.get("stream") === "1" ||
+      (request.headers.get("accept") ?? "").includes("application/x-ndjson");
+    if (!wantsStream) {
+      const results = await mapWithConcurrency(mints, concurrency, analyzeOne);
+      return NextResponse.json({ results });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        await mapWithConcurrency(mints, concurrency, async (mint) => {
+          const item = await analyzeOne(mint);
+          controller.enqueue(encoder.encode(JSON.stringify(item) + "\n"));
+        });
+        controller.close();
+      },
+    });
+    return new Response(stream, {
+      headers: { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-store" },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Analysis error";
+    return NextResponse.json({ error: message }, { status: errorStatus(err), headers: errorHeaders(err) });
+  }
+}
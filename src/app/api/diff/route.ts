@@ -0,0 +1,42 @@
+/**
+ * API: what changed between two snapshots of a mint.
+ * GET ?mint=...&from=<snapshotId>&to=<snapshotId> → SnapshotDiff.
+ * Without from/to: the previous snapshot vs the latest one.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { diffSnapshots, listSnapshots } from "@/lib/snapshots";
+import { isValidSolanaAddress } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const mint = params.get("mint")?.trim() ?? "";
+  if (!mint || !isValidSolanaAddress(mint)) {
+    return NextResponse.json(
+      { error: "Missing or invalid mint parameter (token mint address)" },
+      { status: 400 }
+    );
+  }
+  const fromId = params.get("from")?.trim() || undefined;
+  const toId = params.get("to")?.trim() || undefined;
+
+  try {
+    const snapshots = await listSnapshots(mint);
+    const latest = snapshots.length - 1;
+    const to = toId ? snapshots.find((s) => s.id === toId) : snapshots[latest];
+    const from = fromId ? snapshots.find((s) => s.id === fromId) : snapshots[to ? snapshots.indexOf(to) - 1 : -1];
+    if (!to || !from) {
+      const missing = [fromId && !from && `from=${fromId}`, toId && !to && `to=${toId}`].filter(Boolean).join(", ");
+      return NextResponse.json(
+        { error: missing ? `Snapshot not found: ${missing}` : "Need at least two snapshots of this mint to diff" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(diffSnapshots(from, to));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Diff error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
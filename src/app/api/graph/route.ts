@@ -0,0 +1,56 @@
+/**
+ * API: connection graph of a token (creator, holders, funders, pools, labelled entities).
+ * GET ?mint=...&snapshot=<id> → ConnectionGraph built from that saved snapshot;
+ * without snapshot the token is analyzed (cached upstream responses; ?refresh=1 bypasses them).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { analyzeToken, errorHeaders, errorStatus } from "@/lib/analyze";
+import { buildConnectionGraph } from "@/lib/graph";
+import { getDataProvider, withCache } from "@/lib/providers";
+import { getDefaultRuleset } from "@/lib/scoring";
+import { listSnapshots } from "@/lib/snapshots";
+import { isValidSolanaAddress } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 30;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const mint = params.get("mint")?.trim() ?? "";
+  if (!mint || !isValidSolanaAddress(mint)) {
+    return NextResponse.json(
+      { error: "Missing or invalid mint parameter (token mint address)" },
+      { status: 400 }
+    );
+  }
+  const snapshotId = params.get("snapshot")?.trim();
+
+  try {
+    if (snapshotId) {
+      const snapshot = (await listSnapshots(mint)).find((s) => s.id === snapshotId);
+      if (!snapshot) {
+        return NextResponse.json({ error: `Snapshot "${snapshotId}" not found` }, { status: 404 });
+      }
+      return NextResponse.json(buildConnectionGraph(snapshot.result));
+    }
+
+    const provider = getDataProvider();
+    if (!provider.offline && !process.env.HELIUS_API_KEY?.trim()) {
+      return NextResponse.json(
+        { error: "Service not configured: HELIUS_API_KEY is missing" },
+        { status: 503 }
+      );
+    }
+    const refresh = params.get("refresh") === "1";
+    // The graph does not depend on the ruleset; the default one is enough
+    const result = await analyzeToken(mint, withCache(provider, { refresh }), getDefaultRuleset());
+    return NextResponse.json(buildConnectionGraph(result));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Graph error";
+    return NextResponse.json(
+      { error: message },
+      { status: errorStatus(err), headers: errorHeaders(err) }
+    );
+  }
+}
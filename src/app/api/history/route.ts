@@ -0,0 +1,27 @@
+/**
+ * API: saved analysis snapshots of a mint.
+ * GET ?mint=... → { mint, snapshots: SnapshotSummary[] } (oldest first).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listSnapshots, summarizeSnapshot } from "@/lib/snapshots";
+import { isValidSolanaAddress } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const mint = request.nextUrl.searchParams.get("mint")?.trim() ?? "";
+  if (!mint || !isValidSolanaAddress(mint)) {
+    return NextResponse.json(
+      { error: "Missing or invalid mint parameter (token mint address)" },
+      { status: 400 }
+    );
+  }
+  try {
+    const snapshots = await listSnapshots(mint);
+    return NextResponse.json({ mint, snapshots: snapshots.map(summarizeSnapshot) });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "History error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
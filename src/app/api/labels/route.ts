@@ -0,0 +1,56 @@
+/**
+ * API: known-address label lookup.
+ * GET ?address=a,b,... (up to 50) → { labels: { [address]: { name, category } | null }, labelsFileError? }.
+ * Registry entries (built-ins + LABELS_FILE) first, then the program owning each account
+ * (bonding curves, pool vaults, lockers); ?refresh=1 bypasses cached account lookups.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorHeaders, errorStatus } from "@/lib/analyze";
+import { getLabelsFileError, resolveLabels } from "@/lib/labels";
+import { getDataProvider, withCache } from "@/lib/providers";
+import { isValidSolanaAddress } from "@/lib/utils";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 30;
+
+const MAX_ADDRESSES = 50;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const addresses = (params.get("address") ?? "")
+    .split(",")
+    .map((a) => a.trim())
+    .filter(Boolean);
+  if (addresses.length === 0 || !addresses.every(isValidSolanaAddress)) {
+    return NextResponse.json(
+      { error: "Missing or invalid address parameter (comma-separated Solana addresses)" },
+      { status: 400 }
+    );
+  }
+  if (addresses.length > MAX_ADDRESSES) {
+    return NextResponse.json({ error: `At most ${MAX_ADDRESSES} addresses per request` }, { status: 400 });
+  }
+
+  try {
+    const provider = getDataProvider();
+    if (!provider.offline && !process.env.HELIUS_API_KEY?.trim()) {
+      return NextResponse.json(
+        { error: "Service not configured: HELIUS_API_KEY is missing" },
+        { status: 503 }
+      );
+    }
+    const refresh = params.get("refresh") === "1";
+    const labels = await resolveLabels(withCache(provider, { refresh }), addresses);
+    return NextResponse.json({
+      labels: Object.fromEntries(addresses.map((a) => [a, labels.get(a) ?? null])),
+      labelsFileError: await getLabelsFileError(),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Label lookup error";
+    return NextResponse.json(
+      { error: message },
+      { status: errorStatus(err), headers: errorHeaders(err) }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * API: one watchlist entry.
+ * GET → entry; PATCH { label?, rules?, webhooks?, intervalMinutes?, ruleset? } → updated entry; DELETE → 204.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorStatus } from "@/lib/analyze";
+import { deleteEntry, getEntry, updateEntry } from "@/lib/watchlist";
+
+export const dynamic = "force-dynamic";
+
+type Params = { params: { id: string } };
+
+export async function GET(_request: NextRequest, { params }: Params) {
+  try {
+    const entry = await getEntry(params.id);
+    if (!entry) return NextResponse.json({ error: `Watchlist entry ${params.id} not found` }, { status: 404 });
+    return NextResponse.json(entry);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Watchlist error";
+    return NextResponse.json({ error: message }, { status: errorStatus(err) });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await updateEntry(params.id, body));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Watchlist error";
+    return NextResponse.json({ error: message }, { status: errorStatus(err) });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    await deleteEntry(params.id);
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Watchlist error";
+    return NextResponse.json({ error: message }, { status: errorStatus(err) });
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * API: webhook delivery log, newest first.
+ * GET ?entryId=...&limit=100 → { deliveries: DeliveryRecord[] }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { listDeliveries } from "@/lib/watchlist";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const limit = Number(params.get("limit"));
+  try {
+    const deliveries = await listDeliveries({
+      entryId: params.get("entryId")?.trim() || undefined,
+      limit: Number.isFinite(limit) && limit > 0 ? Math.min(Math.floor(limit), 1000) : 100,
+    });
+    return NextResponse.json({ deliveries });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Delivery log error";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
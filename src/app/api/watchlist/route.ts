@@ -0,0 +1,36 @@
+/**
+ * API: watchlist.
+ * GET → { entries: WatchlistEntry[] }
+ * POST { mint, label?, rules?, webhooks?, intervalMinutes?, ruleset? } → created entry (201).
+ * Without rules the default alert rules apply; without webhooks WATCHLIST_WEBHOOK_URLS.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorStatus } from "@/lib/analyze";
+import { createEntry, listEntries } from "@/lib/watchlist";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ entries: await listEntries() });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Watchlist error";
+    return NextResponse.json({ error: message }, { status: errorStatus(err) });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON: { mint: string }" }, { status: 400 });
+  }
+  try {
+    return NextResponse.json(await createEntry(body), { status: 201 });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Watchlist error";
+    return NextResponse.json({ error: message }, { status: errorStatus(err) });
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API: re-analyze due watchlist entries, evaluate alert rules and deliver webhooks.
+ * Meant for a cron job (GET or POST). ?force=1 ignores intervals; ?id=<entryId> (repeatable) limits the run.
+ * With CRON_SECRET set, requests must send Authorization: Bearer <CRON_SECRET> (Vercel Cron does).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorStatus } from "@/lib/analyze";
+import { getDataProvider } from "@/lib/providers";
+import { runWatchlist } from "@/lib/watchlist";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+async function handle(request: NextRequest) {
+  const secret = process.env.CRON_SECRET?.trim();
+  if (secret && request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  try {
+    if (!getDataProvider().offline && !process.env.HELIUS_API_KEY?.trim()) {
+      return NextResponse.json(
+        { error: "Service not configured: HELIUS_API_KEY is missing" },
+        { status: 503 }
+      );
+    }
+    const params = request.nextUrl.searchParams;
+    const ids = params.getAll("id").filter(Boolean);
+    const result = await runWatchlist({
+      force: params.get("force") === "1",
+      ids: ids.length > 0 ? ids : undefined,
+    });
+    return NextResponse.json(result);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Watchlist run error";
+    return NextResponse.json({ error: message }, { status: errorStatus(err) });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,62 @@
+/**
+ * API: local webhook sink for development and tests (enabled with WEBHOOK_SINK=on).
+ * Point a watchlist webhook at http://localhost:3000/api/webhooks/sink.
+ * POST stores the payload (checking the signature when WEBHOOK_SECRET is set; 401 if it is wrong),
+ * GET lists received payloads (newest first), DELETE clears them.
+ */
+
+import { appendFile, mkdir, readFile, rm } from "fs/promises";
+import path from "path";
+import { NextRequest, NextResponse } from "next/server";
+import { verifyWebhookSignature, watchlistDir } from "@/lib/watchlist";
+
+export const dynamic = "force-dynamic";
+
+function sinkFile(): string {
+  return path.join(watchlistDir(), "sink.jsonl");
+}
+
+function sinkEnabled(): boolean {
+  return process.env.WEBHOOK_SINK?.trim().toLowerCase() === "on";
+}
+
+const DISABLED = { error: "Webhook sink is disabled (set WEBHOOK_SINK=on)" };
+
+export async function POST(request: NextRequest) {
+  if (!sinkEnabled()) return NextResponse.json(DISABLED, { status: 404 });
+  const body = await request.text();
+  const secret = process.env.WEBHOOK_SECRET?.trim();
+  const verified = secret ? verifyWebhookSignature(body, request.headers, secret) : null;
+  if (verified === false) return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 });
+  }
+  await mkdir(path.dirname(sinkFile()), { recursive: true });
+  await appendFile(sinkFile(), JSON.stringify({ receivedAt: Date.now(), verified, payload }) + "\n");
+  return NextResponse.json({ ok: true });
+}
+
+export async function GET() {
+  if (!sinkEnabled()) return NextResponse.json(DISABLED, { status: 404 });
+  let text = "";
+  try {
+    text = await readFile(sinkFile(), "utf8");
+  } catch {
+    // Nothing received yet
+  }
+  const received = text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as unknown)
+    .reverse();
+  return NextResponse.json({ received });
+}
+
+export async function DELETE() {
+  if (!sinkEnabled()) return NextResponse.json(DISABLED, { status: 404 });
+  await rm(sinkFile(), { force: true });
+  return new Response(null, { status: 204 });
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -11,8 +11,18 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { ActivityTimeline } from "@/components/activity-timeline";
+import { ConnectionGraphView } from "@/components/connection-graph";
+import { HolderGrowthChart } from "@/components/holder-growth-chart";
+import { ScoreHistoryChart } from "@/components/score-history-chart";
 import { isValidSolanaAddress } from "@/lib/utils";
-import type { RiskResult } from "@/lib/risk-score";
+import type { ClusterReason } from "@/lib/clusters";
+import type { FundingStopReason } from "@/lib/funding";
+import { buildConnectionGraph, type ConnectionGraph } from "@/lib/graph";
+import { LAUNCHPAD_LABELS } from "@/lib/launchpad";
+import type { DataSectionName, DataSectionStatus, RiskResult } from "@/lib/risk-score";
+import type { SnapshotSummary } from "@/lib/snapshots";
+import type { PreviousTokenStatus } from "@/lib/track-record";
 
 const SEVERITY_STYLES = {
   high: {
@@ -39,19 +49,64 @@ const FACTOR_SEVERITY_STYLES = {
   neutral: "secondary" as const,
 };
 
+const SECTION_LABELS: Record<DataSectionName, string> = {
+  metadata: "Token metadata",
+  mintAccount: "Mint account",
+  creatorHistory: "Creator history",
+  holders: "Holders",
+  market: "DEX market data",
+  marketOverview: "Unique traders (Birdeye)",
+  liquidityPools: "LP burn / lock",
+  fundingTrace: "Creator funding trace",
+  holderClusters: "Holder funding clusters",
+  launch: "Launch transactions",
+  washTrading: "Wash trading (24h)",
+  bondingCurve: "pump.fun bonding curve",
+  holderGrowth: "Holder first receipts",
+};
+
+const FUNDING_STOP_LABELS: Record<FundingStopReason, string> = {
+  labelled_source: "reached a known source",
+  no_incoming_sol: "no earlier SOL funding found",
+  hop_limit: "hop limit reached",
+  cycle: "funding loops back",
+  error: "stopped on an upstream error",
+};
+
+const CLUSTER_REASON_LABELS: Record<ClusterReason, string> = {
+  common_funder: "same funder",
+  synchronized_funding: "funded within a minute",
+  identical_amount: "identical funding amount",
+};
+
+const PREVIOUS_TOKEN_STATUS: Record<PreviousTokenStatus, { label: string; variant: "success" | "warning" | "danger" | "secondary" }> = {
+  alive: { label: "Alive", variant: "success" },
+  abandoned: { label: "Abandoned", variant: "warning" },
+  rugged: { label: "Rugged", variant: "danger" },
+  never_launched: { label: "Never launched", variant: "secondary" },
+};
+
 function HomeContent() {
   const [mint, setMint] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<RiskResult | null>(null);
+  const [history, setHistory] = useState<SnapshotSummary[]>([]);
+  const [graph, setGraph] = useState<ConnectionGraph | null>(null);
+  // History request of the current analysis; a new analysis aborts it so a late reply for the
+  // previous mint cannot fill the chart
+  const historyRequest = useRef<AbortController | null>(null);
 
-  const runAnalysis = useCallback(async (mintAddress: string) => {
+  const runAnalysis = useCallback(async (mintAddress: string, refresh = false) => {
+    historyRequest.current?.abort();
     setError(null);
     setResult(null);
+    setHistory([]);
+    setGraph(null);
     setLoading(true);
     try {
       const res = await fetch(
-        `/api/analyze?mint=${encodeURIComponent(mintAddress)}`
+        `/api/analyze?mint=${encodeURIComponent(mintAddress)}${refresh ? "&refresh=1" : ""}`
       );
       const data = await res.json();
       if (!res.ok) {
@@ -70,6 +125,20 @@ function HomeContent() {
         return;
       }
       setResult(data as RiskResult);
+      // Score history is optional; the analysis is shown even if it fails
+      const historyController = new AbortController();
+      historyRequest.current = historyController;
+      const { signal } = historyController;
+      fetch(`/api/history?mint=${encodeURIComponent(mintAddress)}`, { signal })
+        .then((r) => (r.ok ? r.json() : null))
+        .then((h: { snapshots?: SnapshotSummary[] } | null) => {
+          if (!signal.aborted) setHistory(h?.snapshots ?? []);
+        })
+        .catch(() => {
+          if (!signal.aborted) setHistory([]);
+        });
+      // The graph is built from the result itself (no request, no second analysis)
+      setGraph(buildConnectionGraph(data as RiskResult));
       if (typeof window !== "undefined") {
         const url = new URL(window.location.href);
         url.searchParams.set("mint", mintAddress);
@@ -140,7 +209,7 @@ function HomeContent() {
       {result && (
         <div className="mt-8 space-y-6">
           {/* Risk Score */}
-          <Card className={`border-2 ${SEVERITY_STYLES[result.severity].bg}`}>
+          <Card className={`border-2 ${SEVERITY_STYLES[result.severity].bg} ${result.confidence < 1 ? "border-dashed" : ""}`}>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
                 <span>Risk score</span>
@@ -155,6 +224,7 @@ function HomeContent() {
                   className={SEVERITY_STYLES[result.severity].text}
                 >
                   {SEVERITY_STYLES[result.severity].label}
+                  {result.confidence < 1 && " (partial data)"}
                 </Badge>
               </CardTitle>
               <CardDescription>
@@ -170,6 +240,65 @@ function HomeContent() {
                   /100
                 </span>
               </div>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Ruleset: {result.rulesetVersion}
+                {result.meta?.cache && (
+                  <>
+                    {" · "}
+                    {result.meta.cache.refreshed
+                      ? "fresh data"
+                      : `cache: ${result.meta.cache.hits} hit${result.meta.cache.hits === 1 ? "" : "s"}, ${result.meta.cache.misses} fetched`}
+                    {result.meta.cache.hits > 0 && (
+                      <>
+                        {" · "}
+                        <button
+                          type="button"
+                          className="underline hover:text-foreground"
+                          onClick={() => runAnalysis(result.mint, true)}
+                          disabled={loading}
+                        >
+                          Refresh
+                        </button>
+                      </>
+                    )}
+                  </>
+                )}
+                {result.meta?.requests && result.meta.requests.retries > 0 &&
+                  ` · ${result.meta.requests.retries} upstream retr${result.meta.requests.retries === 1 ? "y" : "ies"} (rate limited)`}
+              </p>
+              {result.meta?.labelsFileError && (
+                <p className="mt-1 text-xs text-amber-700 dark:text-amber-400">{result.meta.labelsFileError}</p>
+              )}
+              {history.length >= 2 && (
+                <div className="mt-3">
+                  <p className="mb-1 text-xs font-medium text-muted-foreground">
+                    Score over time
+                    {(() => {
+                      const delta = history[history.length - 1].score - history[history.length - 2].score;
+                      return delta !== 0 ? ` (${delta > 0 ? "+" : ""}${delta} since previous analysis)` : "";
+                    })()}
+                  </p>
+                  <ScoreHistoryChart snapshots={history} />
+                </div>
+              )}
+              {result.confidence < 1 && (
+                <div className="mt-3 rounded-md border border-amber-500/40 bg-amber-500/10 p-3 text-sm" role="status">
+                  <p className="font-medium text-amber-700 dark:text-amber-400">
+                    Score based on partial data (confidence {Math.round(result.confidence * 100)}%)
+                  </p>
+                  <ul className="mt-1 list-inside list-disc text-muted-foreground">
+                    {(Object.entries(result.dataSections) as Array<[DataSectionName, DataSectionStatus]>)
+                      .filter(([, s]) => s.status === "failed" || s.status === "truncated")
+                      .map(([name, s]) => (
+                        <li key={name}>
+                          {SECTION_LABELS[name]}: {s.status}
+                          {s.completeness !== undefined && ` (${Math.round(s.completeness * 100)}% covered)`}
+                          {s.reason && ` — ${s.reason}`}
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
               {result.creator.tokenName && (
                 <p className="mt-2 text-sm text-muted-foreground">
                   Token: {result.creator.tokenName}
@@ -198,6 +327,44 @@ function HomeContent() {
                       : "—"}
                 </span>
               </div>
+              {result.mintExtensions && result.mintExtensions.length > 0 && (
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <span className="text-muted-foreground">Token-2022 extensions:</span>
+                  <span className="font-medium text-right">
+                    {result.mintExtensions
+                      .map((e) =>
+                        e.type === "other"
+                          ? e.name
+                          : e.type === "transfer_fee_config"
+                            ? `transfer fee ${(e.transferFeeBasisPoints / 100).toFixed(2)}%`
+                            : e.type === "default_account_state"
+                              ? `default state: ${e.state}`
+                              : e.type.replace(/_/g, " ")
+                      )
+                      .join(", ")}
+                  </span>
+                </div>
+              )}
+              {result.tokenMetadata?.mutable !== undefined && (
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-muted-foreground">Metadata:</span>
+                  <span className="font-medium text-right">
+                    {result.tokenMetadata.mutable ? (
+                      <span className={result.tokenMetadata.updateAuthorityIsCreator || result.tokenMetadata.updateAuthorityConnected ? "text-amber-600 dark:text-amber-400" : undefined}>
+                        Mutable
+                        {result.tokenMetadata.updateAuthorityIsCreator
+                          ? " (creator can change it)"
+                          : result.tokenMetadata.updateAuthorityConnected
+                            ? " (creator-linked wallet can change it)"
+                            : ""}
+                      </span>
+                    ) : (
+                      "Immutable"
+                    )}
+                    {result.tokenMetadata.tokenStandard && ` · ${result.tokenMetadata.tokenStandard}`}
+                  </span>
+                </div>
+              )}
               <div className="flex flex-wrap items-center justify-between gap-2">
                 <span className="text-muted-foreground">Creator sold?</span>
                 <span className="font-medium">
@@ -225,7 +392,13 @@ function HomeContent() {
                   <span className="text-muted-foreground">Pairs (swap to):</span>
                   <span className="font-medium tabular-nums text-right">
                     {result.tokenMarket?.pairs && result.tokenMarket.pairs.length > 0
-                      ? result.tokenMarket.pairs.map((p) => `${p.quoteSymbol} ($${p.liquidityUsd.toLocaleString()})`).join(", ")
+                      ? result.tokenMarket.pairs
+                          .map(
+                            (p) =>
+                              `${p.quoteSymbol} ($${p.liquidityUsd.toLocaleString()})` +
+                              (p.lp ? ` — LP ${p.lp.burnedPercent.toFixed(0)}% burned, ${p.lp.lockedPercent.toFixed(0)}% locked` : "")
+                          )
+                          .join(", ")
                       : "No pairs — not swappable"}
                   </span>
                 </div>
@@ -238,6 +411,33 @@ function HomeContent() {
                   </span>
                 </div>
               )}
+              {result.tokenMarket?.bondingCurve && (
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <span className="text-muted-foreground">Bonding curve:</span>
+                    <span className="font-medium tabular-nums">
+                      {result.tokenMarket.bondingCurve.complete
+                        ? "complete"
+                        : `${result.tokenMarket.bondingCurve.completionPercent.toFixed(1)}%`}{" "}
+                      · {result.tokenMarket.bondingCurve.realSolReserves.toLocaleString(undefined, { maximumFractionDigits: 2 })} SOL
+                      raised
+                    </span>
+                  </div>
+                  <div className="h-2 overflow-hidden rounded bg-muted">
+                    <div
+                      className={`h-full rounded ${result.tokenMarket.bondingCurve.complete ? "bg-emerald-500" : "bg-primary"}`}
+                      style={{ width: `${Math.min(100, result.tokenMarket.bondingCurve.completionPercent)}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground tabular-nums">
+                    Virtual reserves {result.tokenMarket.bondingCurve.virtualSolReserves.toLocaleString(undefined, { maximumFractionDigits: 2 })} SOL /{" "}
+                    {Math.round(result.tokenMarket.bondingCurve.virtualTokenReserves).toLocaleString()} tokens · price{" "}
+                    {result.tokenMarket.bondingCurve.priceSol.toExponential(3)} SOL
+                    {result.tokenMarket.bondingCurve.priceUsd !== undefined &&
+                      ` ($${result.tokenMarket.bondingCurve.priceUsd.toExponential(3)})`}
+                  </p>
+                </div>
+              )}
               <div className="flex flex-wrap items-center justify-between gap-2">
                 <span className="text-muted-foreground">Trades (24h):</span>
                 <span className="font-medium tabular-nums">
@@ -248,6 +448,33 @@ function HomeContent() {
                     : "—"}
                 </span>
               </div>
+              {result.washTrading && result.washTrading.washVolumePercent > 0 && (
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-muted-foreground">Wash trading (24h volume):</span>
+                  <span className={`font-medium tabular-nums ${result.washTrading.washVolumePercent >= 20 ? "text-amber-600 dark:text-amber-400" : ""}`}>
+                    {result.washTrading.washVolumePercent.toFixed(1)}% · {result.washTrading.washWallets} wallets
+                    {result.washTrading.adjustedTxCount24h !== undefined &&
+                      ` · ${result.washTrading.adjustedTxCount24h.toLocaleString()} trades after discount`}
+                  </span>
+                </div>
+              )}
+              {result.washTrading && result.washTrading.washWallets > 0 && (
+                <ul className="space-y-1 rounded-md border bg-muted/20 p-2 text-xs text-muted-foreground">
+                  {result.washTrading.selfTrades.count > 0 && (
+                    <li>Self-trades: {result.washTrading.selfTrades.count} tx by {result.washTrading.selfTrades.wallets.length} wallet(s)</li>
+                  )}
+                  {result.washTrading.roundTrips.map((r) => (
+                    <li key={r.wallets.join()} className="font-mono">
+                      Round trip: {r.wallets.map((w) => `${w.slice(0, 4)}…${w.slice(-4)}`).join(" ⇄ ")} ({r.transfers} transfers)
+                    </li>
+                  ))}
+                  {result.washTrading.netZeroWallets.map((w) => (
+                    <li key={w.wallet} className="font-mono">
+                      Net zero: {w.wallet.slice(0, 4)}…{w.wallet.slice(-4)} bought {w.bought.toLocaleString()} / sold {w.sold.toLocaleString()} in {w.trades} trades
+                    </li>
+                  ))}
+                </ul>
+              )}
               <div className="flex flex-wrap items-center justify-between gap-2">
                 <span className="text-muted-foreground">Unique traders (24h):</span>
                 <span className="font-medium tabular-nums">
@@ -264,6 +491,18 @@ function HomeContent() {
                     : "—"}
                 </span>
               </div>
+              {result.holderGrowth && result.holderGrowth.histogram.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-muted-foreground">
+                    Holder growth (first receipt
+                    {result.holderGrowth.complete
+                      ? ` of all ${result.holderGrowth.totalHolders} holders`
+                      : `, sample of ${result.holderGrowth.sampled - result.holderGrowth.errors} of ${result.holderGrowth.totalHolders} holders`}
+                    ; last 7 days highlighted):
+                  </p>
+                  <HolderGrowthChart buckets={result.holderGrowth.histogram} />
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -280,6 +519,17 @@ function HomeContent() {
                 {result.creator.creatorAddress}
               </p>
               <ul className="list-inside list-disc space-y-1 text-muted-foreground">
+                {result.creator.creatorAttributionMethod && (
+                  <li>
+                    Determined by:{" "}
+                    {result.creator.creatorAttributionMethod === "launchpad_instruction" && result.creator.launchpad
+                      ? `${LAUNCHPAD_LABELS[result.creator.launchpad]} create instruction`
+                      : "fee payer of the creation transaction"}
+                  </li>
+                )}
+                {result.creator.creationFeePayer && (
+                  <li className="break-all">Creation paid by: {result.creator.creationFeePayer} (relayer/platform)</li>
+                )}
                 {result.creator.accountAgeDays != null && (
                   <li>
                     Wallet age: ~{Math.round(result.creator.accountAgeDays)}{" "}
@@ -290,14 +540,69 @@ function HomeContent() {
                   Estimated tokens created:{" "}
                   {result.creator.estimatedTokensCreated}
                 </li>
-                <li>Transactions in sample: {result.creator.totalTxCount}</li>
+                <li>
+                  Transactions: {result.creator.totalTxCount}
+                  {result.creator.txHistoryTruncated && " (truncated — older history not fetched)"}
+                </li>
                 {result.creator.canMintUnlimited !== undefined && (
                   <li>
                     Can mint more (unlimited supply):{" "}
                     {result.creator.canMintUnlimited ? "yes" : "no (supply fixed)"}
                   </li>
                 )}
+                {result.creator.mintAuthority !== undefined && (
+                  <li className="break-all">
+                    Mint authority: {result.creator.mintAuthority ?? "revoked"}
+                  </li>
+                )}
+                {result.creator.freezeAuthority !== undefined && (
+                  <li className="break-all">
+                    Freeze authority:{" "}
+                    {result.creator.freezeAuthority ? (
+                      <span className="text-red-600 dark:text-red-400">{result.creator.freezeAuthority} (can freeze holders)</span>
+                    ) : (
+                      "revoked"
+                    )}
+                  </li>
+                )}
               </ul>
+              {result.fundingPath && result.fundingPath.hops.length > 0 && (
+                <div className="pt-2">
+                  <p className="font-sans font-medium text-foreground">Funding path</p>
+                  <ol className="mt-1 space-y-1 text-muted-foreground">
+                    {result.fundingPath.hops.map((h, i) => (
+                      <li key={h.signature} className="flex flex-wrap items-center gap-2">
+                        <span>{i + 1}.</span>
+                        <a
+                          href={`https://solscan.io/tx/${h.signature}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="hover:underline"
+                          title={h.from}
+                        >
+                          ← {h.from.slice(0, 4)}…{h.from.slice(-4)}
+                        </a>
+                        <span className="tabular-nums">{h.amountSol.toFixed(2)} SOL</span>
+                        <span>{new Date(h.timestamp * 1000).toLocaleDateString()}</span>
+                        {h.label && (
+                          <Badge
+                            variant={h.label.category === "known_rugger" || h.label.category === "mixer" ? "danger" : "secondary"}
+                            className="text-xs"
+                          >
+                            {h.label.name}
+                          </Badge>
+                        )}
+                        {h.fromFresh && !h.label && (
+                          <Badge variant="warning" className="text-xs">fresh wallet</Badge>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  <p className="mt-1 font-sans text-xs text-muted-foreground">
+                    Trace: {FUNDING_STOP_LABELS[result.fundingPath.stopReason]}
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -307,10 +612,26 @@ function HomeContent() {
               <CardHeader>
                 <CardTitle>Creator&apos;s other tokens</CardTitle>
                 <CardDescription>
-                  Other tokens created by this wallet — current liquidity and pairs (can you swap to SOL/USDC?).
+                  Other tokens created by this wallet — what became of them, current liquidity and pairs (can you swap to SOL/USDC?).
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
+                {result.creator.previousTokensChecked !== undefined && (
+                  <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 text-sm">
+                    <span className="font-medium">
+                      Rug rate:{" "}
+                      {result.creator.rugRatePercent !== undefined ? `${result.creator.rugRatePercent.toFixed(1)}%` : "—"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {result.creator.previousTokensLaunched} of {result.creator.previousTokensChecked} launched ·{" "}
+                      {result.creator.previousTokensAlive} alive · {result.creator.previousTokensAbandoned} abandoned ·{" "}
+                      {result.creator.previousTokensRugged} rugged
+                    </span>
+                    {(result.creator.pumpAndAbandonCount ?? 0) > 0 && (
+                      <Badge variant="danger">{result.creator.pumpAndAbandonCount} dead within a week</Badge>
+                    )}
+                  </div>
+                )}
                 <ul className="space-y-3 text-sm">
                   {result.creatorPreviousTokens.map((t) => (
                     <li key={t.mint} className="rounded-md border bg-muted/20 p-3">
@@ -323,9 +644,21 @@ function HomeContent() {
                             {t.symbol ?? t.name}
                           </span>
                         )}
+                        {t.status && (
+                          <Badge variant={PREVIOUS_TOKEN_STATUS[t.status].variant}>{PREVIOUS_TOKEN_STATUS[t.status].label}</Badge>
+                        )}
                       </div>
                       <div className="mt-1 flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground">
-                        <span className="tabular-nums">Liquidity: ${t.liquidityUsd.toLocaleString()}</span>
+                        <span className="tabular-nums">
+                          Liquidity: ${t.liquidityUsd.toLocaleString()}
+                          {t.peakLiquidityUsd !== undefined &&
+                            ` (peak ~$${t.peakLiquidityUsd.toLocaleString()}, ${t.liquidityRetainedPercent ?? 0}% left)`}
+                        </span>
+                        {t.lifetimeDays !== undefined && (
+                          <span className="tabular-nums">Lifetime: {t.lifetimeDays} d</span>
+                        )}
+                        {t.creatorRemovedLiquidity && <span className="text-red-600 dark:text-red-400">Creator removed liquidity</span>}
+                        {t.creatorSold && <span className="text-red-600 dark:text-red-400">Creator sold</span>}
                         {t.pairs.length > 0 ? (
                           <span>Pairs: {t.pairs.map((p) => `${p.quoteSymbol} ($${p.liquidityUsd.toLocaleString()})`).join(", ")}</span>
                         ) : (
@@ -349,30 +682,52 @@ function HomeContent() {
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                <div className="flex flex-wrap items-baseline gap-2">
-                  <span className="text-2xl font-bold tabular-nums">
-                    Top 10 holders: {result.holderStats.top10Percent.toFixed(1)}%
-                  </span>
-                  {result.holderStats.top10Percent >= 80 && (
-                    <Badge variant="danger">Very high concentration</Badge>
-                  )}
-                  {result.holderStats.top10Percent >= 50 && result.holderStats.top10Percent < 80 && (
-                    <Badge variant="warning">High concentration</Badge>
-                  )}
-                </div>
+                {(() => {
+                  const concentration = result.holderStats.adjustedTop10Percent ?? result.holderStats.top10Percent;
+                  return (
+                    <div className="flex flex-wrap items-baseline gap-2">
+                      <span className="text-2xl font-bold tabular-nums">
+                        Top 10 holders: {concentration.toFixed(1)}%
+                      </span>
+                      {concentration >= 80 && <Badge variant="danger">Very high concentration</Badge>}
+                      {concentration >= 50 && concentration < 80 && <Badge variant="warning">High concentration</Badge>}
+                    </div>
+                  );
+                })()}
+                {result.holderStats.adjustedTop10Percent !== undefined && (
+                  <p className="text-sm text-muted-foreground">
+                    Of circulating supply. Raw top 10: {result.holderStats.top10Percent.toFixed(1)}%; labelled pools, curves,
+                    burn, lockers and exchanges hold {(result.holderStats.excludedPercent ?? 0).toFixed(1)}% and are left out.
+                  </p>
+                )}
                 <p className="text-sm text-muted-foreground">
                   Total holders: {result.holderStats.totalHolders}
+                  {result.holderStats.partial && "+"}
                 </p>
+                {result.holderStats.partial && (
+                  <p className="text-sm text-amber-600 dark:text-amber-400">
+                    Partial holder data: enumeration stopped after {result.holderStats.accountsFetched ?? "?"} token accounts. Counts and top holders may be incomplete.
+                  </p>
+                )}
                 <div className="space-y-2">
                   <p className="text-sm font-medium">Top 10 by share:</p>
                   {result.holderStats.topHolders.map((h, i) => {
                     const isConnected = result.holderStats?.creatorConnectedHolders?.some((c) => c.owner === h.owner);
                     return (
-                      <div key={h.owner} className="flex items-center gap-2 text-sm">
+                      <div key={h.owner} className={`flex items-center gap-2 text-sm ${h.excluded ? "opacity-60" : ""}`}>
                         <span className="w-5 text-muted-foreground">{i + 1}.</span>
                         <span className="font-mono truncate max-w-[180px]" title={h.owner}>
                           {h.owner.slice(0, 4)}…{h.owner.slice(-4)}
                         </span>
+                        {h.label && (
+                          <Badge
+                            variant={h.label.category === "known_rugger" || h.label.category === "mixer" ? "danger" : "secondary"}
+                            className="text-xs"
+                            title={h.excluded ? "Not counted in the adjusted concentration" : undefined}
+                          >
+                            {h.label.name}
+                          </Badge>
+                        )}
                         {isConnected && (
                           <Badge variant="warning" className="text-xs">received from creator</Badge>
                         )}
@@ -423,6 +778,147 @@ function HomeContent() {
             </Card>
           )}
 
+          {/* Sybil clusters among top holders */}
+          {result.holderClusters && result.holderClusters.clusters.length > 0 && (
+            <Card className="border-amber-500/40 bg-amber-500/5">
+              <CardHeader>
+                <CardTitle>Linked holder clusters</CardTitle>
+                <CardDescription>
+                  Top {result.holderClusters.holdersChecked} holders grouped by how they were first funded — one cluster is likely one entity.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {result.holderClusters.clusters.map((c) => (
+                  <div key={c.id} className="rounded border border-amber-500/20 bg-background/50 px-3 py-2 text-sm">
+                    <div className="flex flex-wrap items-center gap-2 font-medium">
+                      <span className="tabular-nums">
+                        {c.members.length} wallets · {c.supplyPercent.toFixed(1)}% supply
+                      </span>
+                      {c.reasons.map((r) => (
+                        <Badge key={r} variant="warning" className="text-xs">{CLUSTER_REASON_LABELS[r]}</Badge>
+                      ))}
+                    </div>
+                    <ul className="mt-2 space-y-1 font-mono text-muted-foreground">
+                      {c.members.map((m) => (
+                        <li key={m.owner} className="flex flex-wrap items-center gap-2">
+                          <span title={m.owner}>{m.owner.slice(0, 4)}…{m.owner.slice(-4)}</span>
+                          <span className="tabular-nums">{m.percent.toFixed(1)}%</span>
+                          <span className="text-xs" title={m.funder}>
+                            ← {m.funder.slice(0, 4)}…{m.funder.slice(-4)}, {m.fundingAmountSol.toFixed(3)} SOL,{" "}
+                            {new Date(m.fundedAt * 1000).toLocaleString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Launch: bundles and snipers in the first transactions */}
+          {result.launchAnalysis &&
+            (result.launchAnalysis.bundles.length > 0 ||
+              result.launchAnalysis.sameSlotBuys.length > 0 ||
+              result.launchAnalysis.snipers.length > 0) && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Launch: bundles & snipers</CardTitle>
+                <CardDescription>
+                  First {result.launchAnalysis.txsAnalyzed} transactions after creation
+                  {result.launchAnalysis.poolCreatedAt !== undefined &&
+                    ` (pool opened ${new Date(result.launchAnalysis.poolCreatedAt * 1000).toLocaleString()})`}
+                  : bundles (same-slot buys that tipped Jito, include the creator or share a funder), other
+                  same-slot buys and buys within seconds of pool creation.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                <div className="flex flex-wrap gap-x-6 gap-y-1 tabular-nums">
+                  <span>Bundled: {result.launchAnalysis.bundledPercent.toFixed(1)}% of supply</span>
+                  <span>With creator: {result.launchAnalysis.creatorBundledPercent.toFixed(1)}%</span>
+                  <span>
+                    Same-slot (unrelated): {result.launchAnalysis.sameSlotBuys.length} slot(s),{" "}
+                    {result.launchAnalysis.sameSlotPercent.toFixed(1)}%
+                  </span>
+                  <span>Snipers: {result.launchAnalysis.snipers.length} ({result.launchAnalysis.sniperPercent.toFixed(1)}%)</span>
+                </div>
+                {result.launchAnalysis.bundles.length > 0 && (
+                  <ul className="space-y-2">
+                    {result.launchAnalysis.bundles.map((b) => (
+                      <li key={b.slot} className="rounded-md border bg-muted/20 p-3">
+                        <div className="flex flex-wrap items-center gap-2 font-medium">
+                          <span className="tabular-nums">Slot {b.slot}</span>
+                          <span className="tabular-nums text-muted-foreground">
+                            {b.wallets.length} wallets · {b.supplyPercent.toFixed(1)}% supply
+                          </span>
+                          {b.includesCreator && <Badge variant="danger" className="text-xs">includes creator</Badge>}
+                          {b.jitoTip && <Badge variant="warning" className="text-xs">Jito tip</Badge>}
+                          {b.sharedFunder && (
+                            <Badge variant="warning" className="text-xs" title={b.sharedFunder}>
+                              shared funder {b.sharedFunder.slice(0, 4)}…{b.sharedFunder.slice(-4)}
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="mt-1 flex flex-wrap gap-x-3 font-mono text-xs text-muted-foreground">
+                          {b.signatures.map((sig) => (
+                            <a key={sig} href={`https://solscan.io/tx/${sig}`} target="_blank" rel="noreferrer" className="hover:underline">
+                              {sig.slice(0, 8)}…
+                            </a>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {result.launchAnalysis.snipers.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="font-medium">Snipers</p>
+                    {result.launchAnalysis.snipers.map((b) => (
+                      <div key={b.wallet} className="flex flex-wrap items-center gap-2 font-mono text-muted-foreground">
+                        <span title={b.wallet}>{b.wallet.slice(0, 4)}…{b.wallet.slice(-4)}</span>
+                        <span className="tabular-nums">+{b.secondsAfterPool}s</span>
+                        {b.supplyPercent !== undefined && <span className="tabular-nums">{b.supplyPercent.toFixed(2)}%</span>}
+                        <a href={`https://solscan.io/tx/${b.signature}`} target="_blank" rel="noreferrer" className="text-xs hover:underline">
+                          tx
+                        </a>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Timeline: create → pump → abandon at a glance */}
+          {result.timeline && result.timeline.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Timeline</CardTitle>
+                <CardDescription>
+                  Creation, authority changes, pools, liquidity moves, large sells and cluster funding found in the fetched history, oldest first.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ActivityTimeline events={result.timeline} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Connection graph */}
+          {graph && graph.nodes.length > 1 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Connection graph</CardTitle>
+                <CardDescription>
+                  Creator, top holders, funders and pools with the transfers, funding and LP links found during the analysis. Click a wallet for details.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ConnectionGraphView graph={graph} />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Red flags / factors */}
           <Card>
             <CardHeader>
@@ -433,9 +929,9 @@ function HomeContent() {
             </CardHeader>
             <CardContent>
               <ul className="space-y-3">
-                {result.factors.map((f) => (
+                {result.factors.map((f, i) => (
                   <li
-                    key={f.id}
+                    key={`${f.id}-${i}`}
                     className="rounded-md border bg-muted/30 p-3 text-sm"
                   >
                     <div className="flex flex-wrap items-center gap-2">
@@ -0,0 +1,42 @@
+import type { TimelineEvent, TimelineEventKind } from "@/lib/timeline";
+
+const EVENT_STYLES: Record<TimelineEventKind, { dot: string; label: string }> = {
+  creation: { dot: "bg-sky-500", label: "Created" },
+  authority_change: { dot: "bg-violet-500", label: "Authority" },
+  pool_created: { dot: "bg-emerald-500", label: "Pool" },
+  migration: { dot: "bg-emerald-500", label: "Migration" },
+  liquidity_added: { dot: "bg-emerald-500", label: "Liquidity +" },
+  liquidity_removed: { dot: "bg-red-500", label: "Liquidity −" },
+  creator_sell: { dot: "bg-red-500", label: "Creator sell" },
+  cluster_funding: { dot: "bg-amber-500", label: "Cluster funding" },
+  holder_dump: { dot: "bg-red-500", label: "Dump" },
+};
+
+/** Vertical timeline of notable events, oldest first, each linked to its transaction. */
+export function ActivityTimeline({ events }: { events: TimelineEvent[] }) {
+  if (events.length === 0) return null;
+  return (
+    <ol className="relative ml-2 space-y-4 border-l pl-5">
+      {events.map((e) => (
+        <li key={`${e.kind}:${e.signature}`} className="relative text-sm">
+          <span className={`absolute -left-[27px] top-1 h-3 w-3 rounded-full ring-4 ring-background ${EVENT_STYLES[e.kind].dot}`} />
+          <div className="flex flex-wrap items-baseline gap-x-2">
+            <span className="font-medium">{EVENT_STYLES[e.kind].label}</span>
+            <time className="text-xs text-muted-foreground tabular-nums">{new Date(e.timestamp * 1000).toLocaleString()}</time>
+          </div>
+          <p className="text-muted-foreground">
+            {e.description}{" "}
+            <a
+              href={`https://solscan.io/tx/${e.signature}`}
+              target="_blank"
+              rel="noreferrer"
+              className="font-mono text-xs hover:underline"
+            >
+              {e.signature.slice(0, 8)}…
+            </a>
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+}
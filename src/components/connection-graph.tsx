@@ -0,0 +1,350 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { ConnectionGraph, GraphEdgeKind, GraphNode, GraphNodeKind } from "@/lib/graph";
+
+const WIDTH = 640;
+const HEIGHT = 420;
+const LAYOUT_ITERATIONS = 300;
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 4;
+
+const NODE_STYLES: Record<GraphNodeKind, { fill: string; label: string }> = {
+  creator: { fill: "fill-red-500", label: "Creator" },
+  holder: { fill: "fill-sky-500", label: "Holder" },
+  funder: { fill: "fill-zinc-400", label: "Funder" },
+  pool: { fill: "fill-emerald-500", label: "Pool" },
+  labelled: { fill: "fill-amber-500", label: "Known entity" },
+};
+
+const EDGE_STYLES: Record<GraphEdgeKind, { stroke: string; dash?: string; label: string }> = {
+  sol_transfer: { stroke: "stroke-sky-500", label: "SOL transfer" },
+  token_transfer: { stroke: "stroke-violet-500", label: "Token transfer" },
+  funding: { stroke: "stroke-zinc-400", dash: "4 3", label: "Funding" },
+  lp: { stroke: "stroke-emerald-500", dash: "1 3", label: "LP held" },
+};
+
+const CLUSTER_RING = ["stroke-amber-500", "stroke-pink-500", "stroke-cyan-500", "stroke-lime-500", "stroke-orange-500"];
+
+type Point = { x: number; y: number };
+
+function short(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+function nodeRadius(node: GraphNode): number {
+  if (node.kind === "creator") return 9;
+  return node.percent !== undefined ? 5 + Math.min(Math.sqrt(node.percent) * 1.5, 8) : 5;
+}
+
+/**
+ * Force-directed layout (repulsion between all nodes, springs along edges, pull to the centre).
+ * Deterministic: starts from a circle, so the same graph always gets the same picture.
+ */
+function layoutGraph(graph: ConnectionGraph): Map<string, Point> {
+  const n = graph.nodes.length;
+  const index = new Map(graph.nodes.map((node, i) => [node.id, i]));
+  const pos: Point[] = graph.nodes.map((node, i) =>
+    node.kind === "creator"
+      ? { x: WIDTH / 2, y: HEIGHT / 2 }
+      : {
+          x: WIDTH / 2 + Math.cos((2 * Math.PI * i) / n) * WIDTH * 0.35,
+          y: HEIGHT / 2 + Math.sin((2 * Math.PI * i) / n) * HEIGHT * 0.35,
+        }
+  );
+  const k = Math.sqrt((WIDTH * HEIGHT) / Math.max(n, 1)) * 0.6;
+  let temperature = WIDTH / 10;
+
+  for (let iter = 0; iter < LAYOUT_ITERATIONS; iter++) {
+    const disp: Point[] = pos.map(() => ({ x: 0, y: 0 }));
+    for (let a = 0; a < n; a++) {
+      for (let b = a + 1; b < n; b++) {
+        const dx = pos[a].x - pos[b].x || 0.01;
+        const dy = pos[a].y - pos[b].y || 0.01;
+        const d2 = dx * dx + dy * dy;
+        const f = (k * k) / d2;
+        disp[a].x += dx * f;
+        disp[a].y += dy * f;
+        disp[b].x -= dx * f;
+        disp[b].y -= dy * f;
+      }
+    }
+    for (const edge of graph.edges) {
+      const a = index.get(edge.source);
+      const b = index.get(edge.target);
+      if (a === undefined || b === undefined) continue;
+      const dx = pos[a].x - pos[b].x;
+      const dy = pos[a].y - pos[b].y;
+      const d = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      const f = d / k;
+      disp[a].x -= dx * f;
+      disp[a].y -= dy * f;
+      disp[b].x += dx * f;
+      disp[b].y += dy * f;
+    }
+    for (let i = 0; i < n; i++) {
+      disp[i].x += (WIDTH / 2 - pos[i].x) * 0.05;
+      disp[i].y += (HEIGHT / 2 - pos[i].y) * 0.05;
+      const len = Math.sqrt(disp[i].x ** 2 + disp[i].y ** 2) || 1;
+      const step = Math.min(len, temperature);
+      pos[i].x = Math.min(WIDTH - 12, Math.max(12, pos[i].x + (disp[i].x / len) * step));
+      pos[i].y = Math.min(HEIGHT - 12, Math.max(12, pos[i].y + (disp[i].y / len) * step));
+    }
+    temperature *= 0.98;
+  }
+  return new Map(graph.nodes.map((node, i) => [node.id, pos[i]]));
+}
+
+/**
+ * Interactive connection graph: wheel or buttons to zoom, drag to pan, pick a cluster to
+ * highlight its wallets, click a node for its details and links.
+ */
+export function ConnectionGraphView({ graph }: { graph: ConnectionGraph }) {
+  const positions = useMemo(() => layoutGraph(graph), [graph]);
+  const [view, setView] = useState({ scale: 1, x: 0, y: 0 });
+  const [cluster, setCluster] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+
+  useEffect(() => {
+    setView({ scale: 1, x: 0, y: 0 });
+    setCluster(null);
+    setSelected(null);
+  }, [graph]);
+
+  // Non-passive listener so the page does not scroll while zooming
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomBy(e.deltaY < 0 ? 1.15 : 1 / 1.15);
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, []);
+
+  function zoomBy(factor: number) {
+    setView((v) => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, v.scale * factor));
+      // Keep the centre of the view in place
+      const cx = WIDTH / 2;
+      const cy = HEIGHT / 2;
+      return { scale, x: cx - ((cx - v.x) * scale) / v.scale, y: cy - ((cy - v.y) * scale) / v.scale };
+    });
+  }
+
+  const clusterMembers = useMemo(
+    () => new Set(cluster ? graph.nodes.filter((n) => n.clusterId === cluster).map((n) => n.id) : []),
+    [graph, cluster]
+  );
+  const clusterIndex = new Map(graph.clusters.map((c, i) => [c.id, i]));
+  const highlighted = (id: string) => !cluster || clusterMembers.has(id);
+  const selectedNode = graph.nodes.find((n) => n.id === selected);
+  const selectedEdges = selected ? graph.edges.filter((e) => e.source === selected || e.target === selected) : [];
+
+  if (graph.nodes.length < 2) {
+    return <p className="text-sm text-muted-foreground">No connections found in the collected data.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => zoomBy(1.25)} aria-label="Zoom in">
+          +
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={() => zoomBy(0.8)} aria-label="Zoom out">
+          −
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setView({ scale: 1, x: 0, y: 0 })}>
+          Reset
+        </Button>
+        {graph.clusters.length > 0 && (
+          <>
+            <span className="ml-2 text-xs text-muted-foreground">Highlight:</span>
+            <Button
+              type="button"
+              variant={cluster === null ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setCluster(null)}
+            >
+              All
+            </Button>
+            {graph.clusters.map((c) => (
+              <Button
+                key={c.id}
+                type="button"
+                variant={cluster === c.id ? "secondary" : "ghost"}
+                size="sm"
+                onClick={() => setCluster(cluster === c.id ? null : c.id)}
+              >
+                {c.id} ({c.supplyPercent.toFixed(1)}%)
+              </Button>
+            ))}
+          </>
+        )}
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-[420px] w-full cursor-grab touch-none rounded-md border bg-muted/20 active:cursor-grabbing"
+        role="img"
+        aria-label={`Connection graph: ${graph.nodes.length} nodes, ${graph.edges.length} connections`}
+        onPointerDown={(e) => {
+          drag.current = { x: e.clientX, y: e.clientY, moved: false };
+        }}
+        onPointerMove={(e) => {
+          const d = drag.current;
+          if (!d || e.buttons === 0) return;
+          const rect = e.currentTarget.getBoundingClientRect();
+          const ratio = WIDTH / rect.width;
+          const dx = (e.clientX - d.x) * ratio;
+          const dy = (e.clientY - d.y) * ratio;
+          if (Math.abs(dx) + Math.abs(dy) < 2) return;
+          d.x = e.clientX;
+          d.y = e.clientY;
+          d.moved = true;
+          setView((v) => ({ ...v, x: v.x + dx, y: v.y + dy }));
+        }}
+        onPointerUp={() => {
+          drag.current = null;
+        }}
+      >
+        <defs>
+          <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="5" markerHeight="5" orient="auto">
+            <path d="M0,0 L10,5 L0,10 z" className="fill-muted-foreground" />
+          </marker>
+        </defs>
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {graph.edges.map((edge) => {
+            const a = positions.get(edge.source);
+            const b = positions.get(edge.target);
+            if (!a || !b) return null;
+            const style = EDGE_STYLES[edge.kind];
+            // Stop the line at the target's border so the arrow stays visible
+            const target = graph.nodes.find((n) => n.id === edge.target);
+            const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+            const r = target ? nodeRadius(target) + 2 : 0;
+            const active = highlighted(edge.source) && highlighted(edge.target);
+            return (
+              <line
+                key={edge.id}
+                x1={a.x}
+                y1={a.y}
+                x2={b.x - ((b.x - a.x) / len) * r}
+                y2={b.y - ((b.y - a.y) / len) * r}
+                className={style.stroke}
+                strokeWidth={selected && (edge.source === selected || edge.target === selected) ? 2.5 : 1.25}
+                strokeDasharray={style.dash}
+                strokeOpacity={active ? 0.8 : 0.15}
+                markerEnd="url(#graph-arrow)"
+              >
+                <title>{`${style.label}: ${short(edge.source)} → ${short(edge.target)}`}</title>
+              </line>
+            );
+          })}
+          {graph.nodes.map((node) => {
+            const p = positions.get(node.id)!;
+            const r = nodeRadius(node);
+            const ring = node.clusterId !== undefined ? CLUSTER_RING[(clusterIndex.get(node.clusterId) ?? 0) % CLUSTER_RING.length] : undefined;
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${p.x} ${p.y})`}
+                opacity={highlighted(node.id) ? 1 : 0.2}
+                className="cursor-pointer"
+                onClick={() => {
+                  if (!drag.current?.moved) setSelected(selected === node.id ? null : node.id);
+                }}
+              >
+                <circle
+                  r={r}
+                  className={`${NODE_STYLES[node.kind].fill} ${ring ?? "stroke-background"}`}
+                  strokeWidth={ring ? 3 : 1}
+                />
+                {selected === node.id && <circle r={r + 4} fill="none" className="stroke-foreground" strokeWidth={1.5} />}
+                {(node.kind === "creator" || node.kind === "labelled" || node.kind === "pool") && (
+                  <text y={r + 10} textAnchor="middle" className="fill-muted-foreground text-[9px]">
+                    {node.entity?.name ?? (node.pool ? `${node.pool.quoteSymbol} pool` : NODE_STYLES[node.kind].label)}
+                  </text>
+                )}
+                <title>{`${NODE_STYLES[node.kind].label} ${node.id}`}</title>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+        {(Object.keys(NODE_STYLES) as GraphNodeKind[]).map((kind) => (
+          <span key={kind} className="flex items-center gap-1">
+            <svg width="10" height="10" aria-hidden>
+              <circle cx="5" cy="5" r="4" className={NODE_STYLES[kind].fill} />
+            </svg>
+            {NODE_STYLES[kind].label}
+          </span>
+        ))}
+        {(Object.keys(EDGE_STYLES) as GraphEdgeKind[]).map((kind) => (
+          <span key={kind} className="flex items-center gap-1">
+            <svg width="18" height="10" aria-hidden>
+              <line x1="0" y1="5" x2="18" y2="5" className={EDGE_STYLES[kind].stroke} strokeWidth={2} strokeDasharray={EDGE_STYLES[kind].dash} />
+            </svg>
+            {EDGE_STYLES[kind].label}
+          </span>
+        ))}
+      </div>
+
+      {selectedNode && (
+        <div className="rounded-md border bg-muted/20 p-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary">{NODE_STYLES[selectedNode.kind].label}</Badge>
+            <span className="break-all font-mono">{selectedNode.id}</span>
+            {selectedNode.entity && <Badge variant="outline">{selectedNode.entity.name}</Badge>}
+            {selectedNode.clusterId && <Badge variant="warning">{selectedNode.clusterId}</Badge>}
+            {selectedNode.fresh && <Badge variant="warning">fresh wallet</Badge>}
+          </div>
+          <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+            {selectedNode.percent !== undefined && <span>Holds {selectedNode.percent.toFixed(2)}% of supply</span>}
+            {selectedNode.pool && (
+              <span>
+                {selectedNode.pool.dexId ?? "DEX"} · {selectedNode.pool.quoteSymbol} · ${selectedNode.pool.liquidityUsd.toLocaleString()} liquidity
+              </span>
+            )}
+            <a
+              href={`https://solscan.io/account/${selectedNode.id}`}
+              target="_blank"
+              rel="noreferrer"
+              className="text-primary hover:underline"
+            >
+              Open on Solscan
+            </a>
+          </div>
+          {selectedEdges.length > 0 && (
+            <ul className="mt-2 space-y-1 font-mono text-xs text-muted-foreground">
+              {selectedEdges.map((e) => (
+                <li key={e.id}>
+                  {EDGE_STYLES[e.kind].label}: {e.source === selectedNode.id ? `→ ${short(e.target)}` : `← ${short(e.source)}`}
+                  {e.amountSol !== undefined && ` · ${e.amountSol.toFixed(3)} SOL`}
+                  {e.percent !== undefined && ` · ${e.percent.toFixed(1)}% of LP`}
+                  {e.timestamp !== undefined && ` · ${new Date(e.timestamp * 1000).toLocaleDateString()}`}
+                  {e.signature && (
+                    <>
+                      {" · "}
+                      <a href={`https://solscan.io/tx/${e.signature}`} target="_blank" rel="noreferrer" className="hover:underline">
+                        tx
+                      </a>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import type { HolderGrowthBucket } from "@/lib/holder-growth";
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const PAD = 4;
+
+/**
+ * Holder arrivals over time (one bar per bucket, height = share of sampled holders whose first
+ * receipt falls in it). Bars of the last 7 days are highlighted.
+ */
+export function HolderGrowthChart({ buckets }: { buckets: HolderGrowthBucket[] }) {
+  if (buckets.length === 0) return null;
+  const max = Math.max(...buckets.map((b) => b.percent), 1);
+  const barWidth = (WIDTH - 2 * PAD) / buckets.length;
+  const weekAgo = Date.now() / 1000 - 7 * 86400;
+  const day = (t: number) => new Date(t * 1000).toLocaleDateString();
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-20 w-full"
+        role="img"
+        aria-label={`New holders per period: ${buckets.map((b) => `${b.percent}%`).join(", ")}`}
+      >
+        {buckets.map((b, i) => {
+          const h = (b.percent / max) * (HEIGHT - 2 * PAD);
+          return (
+            <rect
+              key={b.from}
+              x={PAD + i * barWidth + barWidth * 0.1}
+              y={HEIGHT - PAD - h}
+              width={barWidth * 0.8}
+              height={h}
+              className={b.to > weekAgo ? "fill-amber-500" : "fill-primary"}
+            >
+              <title>{`${day(b.from)}: ${b.holders} holder(s), ${b.percent}%`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{day(buckets[0].from)}</span>
+        <span>{day(buckets[buckets.length - 1].from)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import type { SnapshotSummary } from "@/lib/snapshots";
+
+const WIDTH = 300;
+const HEIGHT = 80;
+const PAD = 4;
+
+const POINT_COLORS = {
+  high: "fill-red-500",
+  medium: "fill-amber-500",
+  low: "fill-emerald-500",
+} as const;
+
+/**
+ * Score over time from saved snapshots (x = time, y = score 0–100, dashed lines at the
+ * default risk bands 30 and 60).
+ */
+export function ScoreHistoryChart({ snapshots }: { snapshots: SnapshotSummary[] }) {
+  if (snapshots.length < 2) return null;
+  const t0 = snapshots[0].createdAt;
+  const span = Math.max(snapshots[snapshots.length - 1].createdAt - t0, 1);
+  const x = (t: number) => PAD + ((t - t0) / span) * (WIDTH - 2 * PAD);
+  const y = (score: number) => PAD + (1 - score / 100) * (HEIGHT - 2 * PAD);
+  const points = snapshots.map((s) => `${x(s.createdAt).toFixed(1)},${y(s.score).toFixed(1)}`).join(" ");
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-20 w-full text-muted-foreground"
+        role="img"
+        aria-label={`Score history: ${snapshots.map((s) => s.score).join(", ")}`}
+      >
+        {[30, 60].map((band) => (
+          <line
+            key={band}
+            x1={PAD}
+            x2={WIDTH - PAD}
+            y1={y(band)}
+            y2={y(band)}
+            stroke="currentColor"
+            strokeOpacity={0.3}
+            strokeDasharray="3 3"
+          />
+        ))}
+        <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} />
+        {snapshots.map((s) => (
+          <circle key={s.id} cx={x(s.createdAt)} cy={y(s.score)} r={2.5} className={POINT_COLORS[s.severity]}>
+            <title>{`${new Date(s.createdAt).toLocaleString()}: ${s.score}/100 (${s.rulesetVersion})`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{new Date(t0).toLocaleDateString()}</span>
+        <span>{snapshots.length} analyses</span>
+        <span>{new Date(snapshots[snapshots.length - 1].createdAt).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
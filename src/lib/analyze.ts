@@ -0,0 +1,752 @@
+/**
+ * Token analysis pipeline: collects creator, holder, market and mint data for one mint
+ * through a data provider and scores it with a ruleset. Server-only.
+ */
+
+import { decodeMint, getCreatorTransferKinds, getUpdateAuthority, getWalletsReceivedFromCreator } from "@/lib/helius";
+import type { DecodedMint, HeliusTransaction } from "@/lib/helius";
+import type { DexPairRaw } from "@/lib/market";
+import type { DataProvider } from "@/lib/providers";
+import { fetchBondingCurve, type BondingCurveState } from "@/lib/bonding-curve";
+import { detectHolderClusters, getClusterTopN, type HolderClusterAnalysis } from "@/lib/clusters";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { traceFunding, type FundingPath } from "@/lib/funding";
+import { analyzeHolderGrowth, getFreshHoldersSample, type HolderGrowthAnalysis } from "@/lib/holder-growth";
+import { fetchTransactionHistory, getCreatorHistoryBudget, type PageBudget, type TransactionHistory, type TruncatedReason } from "@/lib/history";
+import { analyzeLaunch, getLaunchTxLimit } from "@/lib/launch";
+import { attributeCreator, findLaunchpadCreates } from "@/lib/launchpad";
+import { analyzePoolLp } from "@/lib/liquidity";
+import { emptyRequestStats, UpstreamError, withRequestStats } from "@/lib/request-executor";
+import type { Ruleset } from "@/lib/scoring";
+import { decodeMintExtensions, type MintExtension } from "@/lib/token-extensions";
+import { computeHolderStats, fetchAllTokenAccounts, fetchedSupplyShare, getHoldersBudget, isNonHolderLabel, LABELLED_HOLDERS_TOP_N, rankTopHolders, topOwners } from "@/lib/holders";
+import { getLabelsFileError, resolveLabels } from "@/lib/labels";
+import { computeRiskScore, type CreatorAnalysis, type CreatorPreviousToken, type DataSectionName, type DataSections, type HolderStats, type RiskResult, type TokenMarketStats, type TokenMetadataInfo, type TokenPairInfo } from "@/lib/risk-score";
+import { buildTimeline } from "@/lib/timeline";
+import { assessPreviousToken, summarizeTrackRecord } from "@/lib/track-record";
+import { envInt, isValidSolanaAddress } from "@/lib/utils";
+import { analyzeWashTrading, fetchRecentTransactions, getWashBudget, type WashTradingAnalysis } from "@/lib/wash-trading";
+
+/** Analysis failure with the HTTP status the API should answer with. */
+export class AnalysisError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "AnalysisError";
+  }
+}
+
+/**
+ * HTTP status for an analysis error: invalid key → 401, missing config or upstream rate limit
+ * (after retries) → 503, other upstream failure → 502, else 500.
+ */
+export function errorStatus(err: unknown): number {
+  if (err instanceof AnalysisError) return err.status;
+  if (err instanceof UpstreamError) return err.status === 429 ? 503 : 502;
+  const message = err instanceof Error ? err.message : "";
+  const isInvalidKey =
+    message.includes("Invalid API key") ||
+    message.includes("invalid api key") ||
+    message.includes("invalid api key provided");
+  return isInvalidKey
+    ? 401
+    : message.includes("HELIUS_API_KEY") || message.includes("not set")
+      ? 503
+      : 500;
+}
+
+/** Response headers for an analysis error: Retry-After when the upstream sent one. */
+export function errorHeaders(err: unknown): Record<string, string> | undefined {
+  if (err instanceof UpstreamError && err.retryAfterMs !== undefined) {
+    return { "Retry-After": String(Math.ceil(err.retryAfterMs / 1000)) };
+  }
+  return undefined;
+}
+
+/** Least time a paginated section gets, so it fetches at least its first page. */
+const MIN_SECTION_TIME_MS = 1000;
+/** Previous tokens of the creator looked up in parallel. */
+const PREVIOUS_TOKEN_CONCURRENCY = 4;
+
+/** Order data sections are reported in (sections finish in any order). */
+const SECTION_ORDER: DataSectionName[] = [
+  "metadata",
+  "mintAccount",
+  "creatorHistory",
+  "fundingTrace",
+  "holders",
+  "holderClusters",
+  "launch",
+  "holderGrowth",
+  "market",
+  "liquidityPools",
+  "marketOverview",
+  "bondingCurve",
+  "washTrading",
+];
+
+/**
+ * Time for one analysis from env (ANALYSIS_TIME_BUDGET_MS, default 25000: the analyze route's
+ * maxDuration is 30 s). Sections run in parallel; paginated ones stop when it is used up.
+ */
+export function getAnalysisTimeBudgetMs(): number {
+  return envInt("ANALYSIS_TIME_BUDGET_MS", 25000);
+}
+
+/** `budget` with its time budget cut to what remains until `deadline` (epoch ms). */
+function withinDeadline(budget: PageBudget, deadline: number): PageBudget {
+  const remaining = Math.max(deadline - Date.now(), MIN_SECTION_TIME_MS);
+  return { ...budget, timeBudgetMs: Math.min(budget.timeBudgetMs ?? remaining, remaining) };
+}
+
+function inSectionOrder(sections: DataSections): DataSections {
+  return Object.fromEntries(SECTION_ORDER.filter((name) => sections[name]).map((name) => [name, sections[name]]));
+}
+
+const CREATION_TYPES = new Set(["CREATE", "CREATE_MINT_METADATA", "TOKEN_MINT", "MINT_TO", "INITIALIZE", "INITIALIZE_MINT", "NFT_MINT", "COMPRESSED_NFT_MINT"]);
+
+/** Launchpad create instruction, else a creation-like Helius type. */
+function isCreationTx(tx: HeliusTransaction): boolean {
+  if (findLaunchpadCreates(tx).length > 0) return true;
+  const t = (tx.type ?? "").toUpperCase();
+  for (const prefix of CREATION_TYPES) {
+    if (t === prefix || t.startsWith(prefix + "_")) return true;
+  }
+  return t.includes("MINT") || t.includes("CREATE") || t.includes("INITIALIZE");
+}
+
+/** Collect other mint addresses from creator txs that look like token creation. */
+function getOtherMintsFromCreatorTxs(txs: HeliusTransaction[], currentMint: string, limit: number): string[] {
+  const mints = new Set<string>();
+  for (const tx of txs) {
+    if (!isCreationTx(tx)) continue;
+    const launchpadMints = findLaunchpadCreates(tx).map((c) => c.mint);
+    for (const m of launchpadMints) if (m !== currentMint) mints.add(m);
+    if (launchpadMints.length > 0) continue;
+    for (const t of tx.tokenTransfers ?? []) {
+      const m = t.mint?.trim();
+      if (m && m !== currentMint && isValidSolanaAddress(m)) mints.add(m);
+    }
+  }
+  return [...mints].slice(0, limit);
+}
+
+function inferMigrationStatus(dexIds: string[]): { status: TokenMarketStats["migrationStatus"]; label: string } {
+  const lower = dexIds.map((d) => (d ?? "").toLowerCase());
+  const hasPump = lower.some((d) => d.includes("pump"));
+  const hasRaydium = lower.some((d) => d === "raydium" || d.includes("raydium"));
+  const hasPumpAmm = lower.some((d) => d.includes("pump-amm") || d.includes("pump_amm"));
+  const hasOtherAmm = lower.some((d) => ["orca", "meteora", "jupiter", "lifinity", "phoenix"].some((x) => d.includes(x)));
+  const hasAmm = hasRaydium || hasPumpAmm || hasOtherAmm;
+
+  if (dexIds.length === 0) return { status: "unknown", label: "—" };
+  if (hasPump && !hasAmm) return { status: "bonding_curve", label: "Bonding curve (not migrated)" };
+  if (hasAmm && hasPump) return { status: "migrated", label: "Migrated (e.g. Raydium)" };
+  if (hasAmm) return { status: "amm_only", label: "Trading on AMM (no bonding curve)" };
+  return { status: "unknown", label: "—" };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+function truncationReason(reason: TruncatedReason | undefined, fetched: string): string {
+  return reason === "time_budget"
+    ? `Time budget reached after ${fetched}`
+    : `Page budget reached after ${fetched}`;
+}
+
+/** Share of the last `spanS` seconds (up to `now`) covered by `txs` (fetched newest first). */
+function timeCoverage(
+  txs: Array<Pick<HeliusTransaction, "timestamp">>,
+  now: number,
+  spanS: number | undefined
+): number | undefined {
+  if (!spanS || spanS <= 0) return undefined;
+  if (txs.length === 0) return 0;
+  const oldest = Math.min(...txs.map((tx) => tx.timestamp));
+  return Math.min(1, Math.max(0, (now - oldest) / spanS));
+}
+
+interface DexScreenerSummary {
+  liquidityUsd?: number;
+  txCount24h?: number;
+  buys24h?: number;
+  sells24h?: number;
+  pairs?: TokenPairInfo[];
+  migrationStatus?: TokenMarketStats["migrationStatus"];
+  migrationLabel?: string;
+  /** SOL price implied by a SOL-quoted pair (priceUsd / priceNative). */
+  solPriceUsd?: number;
+}
+
+/** Aggregates DexScreener pairs for a mint. Throws if DexScreener fails; empty object if there are no pairs. */
+async function fetchDexScreenerData(provider: DataProvider, mint: string): Promise<DexScreenerSummary> {
+  const data: DexPairRaw[] = await provider.getDexPairs(mint);
+  if (data.length === 0) return {};
+  let liquidityUsd = 0;
+  let buys24h = 0;
+  let sells24h = 0;
+  let solPriceUsd: number | undefined;
+  const dexIdsSeen = new Set<string>();
+  const byQuote = new Map<string, { liquidityUsd: number; dexId?: string; pairAddress?: string }>();
+  for (const pair of data) {
+    const dexId = pair.dexId?.trim();
+    if (dexId) dexIdsSeen.add(dexId);
+    const usd = pair.liquidity?.usd ?? 0;
+    if (typeof usd === "number" && usd > 0) liquidityUsd += usd;
+    const h24 = pair.txns?.h24;
+    if (h24) {
+      buys24h += h24.buys ?? 0;
+      sells24h += h24.sells ?? 0;
+    }
+    const baseAddr = pair.baseToken?.address;
+    const quoteSym = pair.quoteToken?.symbol ?? "?";
+    const priceUsd = Number(pair.priceUsd);
+    const priceNative = Number(pair.priceNative);
+    if (solPriceUsd === undefined && quoteSym === "SOL" && priceUsd > 0 && priceNative > 0) {
+      solPriceUsd = priceUsd / priceNative;
+    }
+    const baseSym = pair.baseToken?.symbol ?? "?";
+    const otherSymbol = baseAddr === mint ? quoteSym : baseSym;
+    const cur = byQuote.get(otherSymbol);
+    if (!cur || usd > cur.liquidityUsd) {
+      byQuote.set(otherSymbol, {
+        liquidityUsd: typeof usd === "number" && usd > 0 ? usd : 0,
+        dexId: pair.dexId,
+        pairAddress: pair.pairAddress,
+      });
+    }
+  }
+  const pairs: TokenPairInfo[] = [...byQuote.entries()]
+    .filter(([, v]) => v.liquidityUsd > 0)
+    .map(([quoteSymbol, v]) => ({
+      quoteSymbol,
+      liquidityUsd: v.liquidityUsd,
+      dexId: v.dexId,
+      pairAddress: v.pairAddress,
+    }));
+  const txCount24h = buys24h + sells24h;
+  const migration = inferMigrationStatus([...dexIdsSeen]);
+  return {
+    liquidityUsd: liquidityUsd > 0 ? liquidityUsd : undefined,
+    txCount24h: txCount24h > 0 ? txCount24h : undefined,
+    buys24h: buys24h > 0 ? buys24h : undefined,
+    sells24h: sells24h > 0 ? sells24h : undefined,
+    pairs: pairs.length > 0 ? pairs : undefined,
+    migrationStatus: migration.status,
+    migrationLabel: migration.label,
+    solPriceUsd,
+  };
+}
+
+/**
+ * Runs the full analysis for one mint. Throws AnalysisError (with status) or upstream errors.
+ * Result meta reports cache use and upstream request counters (retries, throttling).
+ */
+export async function analyzeToken(
+  mint: string,
+  provider: DataProvider,
+  ruleset: Ruleset
+): Promise<RiskResult> {
+  const requests = emptyRequestStats();
+  const result = await withRequestStats(requests, () => runAnalysis(mint, provider, ruleset));
+  result.meta = {
+    provider: provider.name,
+    cache: provider.cacheStats ? { ...provider.cacheStats } : undefined,
+    requests,
+    labelsFileError: await getLabelsFileError(),
+  };
+  return result;
+}
+
+interface CreatorHistorySection {
+  history: TransactionHistory;
+  /** Newest first. */
+  txsDesc: HeliusTransaction[];
+  accountFirstTimestamp: number | null;
+  receivedFromCreator: Map<string, number>;
+}
+
+interface MetadataSection {
+  tokenName?: string;
+  tokenSymbol?: string;
+  canMintUnlimited?: boolean;
+  tokenMetadata?: TokenMetadataInfo;
+}
+
+/** Token metadata and mint authority from DAS (optional). */
+async function loadMetadata(provider: DataProvider, mint: string, dataSections: DataSections): Promise<MetadataSection> {
+  const section: MetadataSection = {};
+  try {
+    const asset = await provider.getAsset(mint);
+    if (asset?.content?.metadata) {
+      section.tokenName = asset.content.metadata.name as string | undefined;
+      section.tokenSymbol = asset.content.metadata.symbol as string | undefined;
+    }
+    if (asset) {
+      section.tokenMetadata = {
+        mutable: asset.mutable,
+        updateAuthority: getUpdateAuthority(asset),
+        uri: asset.content?.json_uri || undefined,
+        tokenStandard: asset.content?.metadata?.token_standard,
+      };
+    }
+    if (asset?.token_info) {
+      const ma = asset.token_info.mint_authority;
+      section.canMintUnlimited =
+        typeof ma === "string" && ma.length > 0 && ma !== "null"
+          ? true
+          : false;
+    }
+    dataSections.metadata = asset
+      ? { status: "ok" }
+      : { status: "skipped", reason: "Token not indexed by DAS (no Metaplex metadata)" };
+  } catch (err) {
+    // Token may lack Metaplex metadata or not be in DAS
+    dataSections.metadata = { status: "failed", reason: errorMessage(err) };
+  }
+  return section;
+}
+
+/** Mint account (on-chain, authoritative): authorities, supply, decimals, extensions. */
+async function loadMintAccount(
+  provider: DataProvider,
+  mint: string,
+  dataSections: DataSections
+): Promise<{ decodedMint: DecodedMint | null; mintExtensions: MintExtension[] }> {
+  try {
+    const mintAccount = await provider.getAccountInfo(mint);
+    const decodedMint = mintAccount ? decodeMint(mintAccount) : null;
+    dataSections.mintAccount = decodedMint
+      ? { status: "ok" }
+      : { status: "failed", reason: mintAccount ? "Account is not a token mint" : "Mint account not found" };
+    return { decodedMint, mintExtensions: mintAccount ? decodeMintExtensions(mintAccount) : [] };
+  } catch (err) {
+    // Mint account unavailable; fall back to DAS token_info
+    dataSections.mintAccount = { status: "failed", reason: errorMessage(err) };
+    return { decodedMint: null, mintExtensions: [] };
+  }
+}
+
+async function runAnalysis(
+  mint: string,
+  provider: DataProvider,
+  ruleset: Ruleset
+): Promise<RiskResult> {
+  // Upstream section status → confidence (missing data must not look neutral)
+  const dataSections: DataSections = {};
+  // One deadline for the whole analysis; paginated sections get what remains of it
+  const deadline = Date.now() + getAnalysisTimeBudgetMs();
+
+  // Metadata and mint account, and the first txs on the mint: the first one is the creation; its
+  // launchpad create instruction (or else the fee payer) names the creator. The following ones
+  // show how the launch went.
+  const launchTxLimit = getLaunchTxLimit();
+  const [metadata, { decodedMint, mintExtensions }, mintTxsAsc] = await Promise.all([
+    loadMetadata(provider, mint, dataSections),
+    loadMintAccount(provider, mint, dataSections),
+    provider.getTransactionsByAddress(mint, {
+      "sort-order": "asc",
+      limit: launchTxLimit,
+    }),
+  ]);
+  // Ages and recent windows are measured from here (a replay pins it to the recording time)
+  const now = provider.now();
+  const { tokenName, tokenSymbol, tokenMetadata } = metadata;
+  const canMintUnlimited = decodedMint ? decodedMint.mintAuthority !== null : metadata.canMintUnlimited;
+  const mintSupplyRaw = decodedMint?.supply ?? null;
+  const supplyUi = decodedMint ? Number(decodedMint.supply) / 10 ** decodedMint.decimals : null;
+
+  const creationTx = mintTxsAsc[0];
+  if (!creationTx?.feePayer) {
+    throw new AnalysisError(
+      "Could not determine token creator (no transaction history for this address)",
+      404
+    );
+  }
+
+  const attribution = attributeCreator(creationTx, mint);
+  const creatorAddress = attribution.creatorAddress;
+  const creatorFirstTxTimestamp = creationTx.timestamp ?? null;
+
+  // From here on sections run side by side; a section that builds on another awaits its task.
+  // Each task reports its own failure on its section and never rejects, so one failing section
+  // neither fails the analysis nor leaves the others running unawaited.
+
+  // Creator history: old first (for age), then all pages newest first (for creation count and
+  // outbound transfers). Without it, holders, LP and previous tokens go on without the creator's transfers.
+  const creatorTask = (async (): Promise<CreatorHistorySection> => {
+    try {
+      const [creatorTxsAsc, history] = await Promise.all([
+        provider.getTransactionsByAddress(creatorAddress, {
+          "sort-order": "asc",
+          limit: 1,
+        }),
+        fetchTransactionHistory(provider, creatorAddress, withinDeadline(getCreatorHistoryBudget(), deadline)),
+      ]);
+      const txsDesc = history.transactions;
+      const accountFirstTimestamp = creatorTxsAsc[0]?.timestamp ?? creatorFirstTxTimestamp;
+      dataSections.creatorHistory = history.truncated
+        ? {
+            status: "truncated",
+            reason: truncationReason(history.truncatedReason, `${txsDesc.length} transactions`),
+            // Share of the account's lifetime the fetched pages span
+            completeness: timeCoverage(txsDesc, now, accountFirstTimestamp != null ? now - accountFirstTimestamp : undefined),
+          }
+        : { status: "ok" };
+      // Wallets that received SOL/tokens FROM creator (for connection analysis)
+      const receivedFromCreator = getWalletsReceivedFromCreator(txsDesc, creatorAddress);
+      return { history, txsDesc, accountFirstTimestamp, receivedFromCreator };
+    } catch (err) {
+      dataSections.creatorHistory = { status: "failed", reason: errorMessage(err) };
+      // Account age unknown (not the token's age)
+      return {
+        history: { transactions: [], pagesFetched: 0, truncated: false },
+        txsDesc: [],
+        accountFirstTimestamp: null,
+        receivedFromCreator: new Map(),
+      };
+    }
+  })();
+
+  // Where the creator's SOL came from, followed back several hops
+  const fundingTask = (async (): Promise<FundingPath | undefined> => {
+    try {
+      const path = await traceFunding(provider, creatorAddress);
+      dataSections.fundingTrace =
+        path.stopReason === "error"
+          ? { status: "truncated", reason: `Stopped after ${path.hops.length} hop(s): ${path.error}` }
+          : { status: "ok" };
+      return path;
+    } catch (err) {
+      dataSections.fundingTrace = { status: "failed", reason: errorMessage(err) };
+      return undefined;
+    }
+  })();
+
+  // Holder distribution: aggregate by owner, label known accounts, compute raw and adjusted top 10 share
+  const holdersTask = (async () => {
+    try {
+      const enumeration = await fetchAllTokenAccounts(provider, mint, withinDeadline(getHoldersBudget(), deadline));
+      const labels = await resolveLabels(provider, topOwners(enumeration, LABELLED_HOLDERS_TOP_N));
+      const { txsDesc, receivedFromCreator } = await creatorTask;
+      const stats = computeHolderStats(enumeration, mintSupplyRaw, creatorAddress, receivedFromCreator, labels);
+      if (stats?.creatorConnectedHolders) {
+        const kinds = getCreatorTransferKinds(txsDesc, creatorAddress);
+        for (const h of stats.creatorConnectedHolders) h.via = [...(kinds.get(h.owner) ?? [])];
+      }
+      dataSections.holders = !stats
+        ? { status: "failed", reason: "No token accounts with a balance" }
+        : enumeration.truncated
+          ? {
+              status: "truncated",
+              reason: truncationReason(enumeration.truncatedReason, `${enumeration.accounts.length} token accounts`),
+              completeness: fetchedSupplyShare(enumeration, BigInt(stats.totalSupplyRaw)),
+            }
+          : { status: "ok" };
+      return stats ? { enumeration, labels, stats } : undefined;
+    } catch (err) {
+      // Holders API can fail for some mints; skip distribution
+      dataSections.holders = { status: "failed", reason: errorMessage(err) };
+      return undefined;
+    }
+  })();
+
+  // Sybil clusters: top holders sharing a funder, funding time or funding amount
+  const clustersTask = (async (): Promise<HolderClusterAnalysis | undefined> => {
+    const holders = await holdersTask;
+    if (!holders) {
+      dataSections.holderClusters = { status: "failed", reason: "No holder data" };
+      return undefined;
+    }
+    try {
+      // Curves, pools and exchanges are not sybil wallets
+      const top = rankTopHolders(holders.enumeration, BigInt(holders.stats.totalSupplyRaw), getClusterTopN()).filter(
+        (h) => !isNonHolderLabel(holders.labels.get(h.owner))
+      );
+      const clusters = await detectHolderClusters(provider, top);
+      dataSections.holderClusters = clusters.errors
+        ? {
+            status: "truncated",
+            reason: `Funding lookup failed for ${clusters.errors} of ${top.length} holders`,
+            completeness: 1 - clusters.errors / top.length,
+          }
+        : { status: "ok" };
+      return clusters;
+    } catch (err) {
+      dataSections.holderClusters = { status: "failed", reason: errorMessage(err) };
+      return undefined;
+    }
+  })();
+
+  // Fresh holders: first-receipt times of (a sample of) the holders
+  const growthTask = (async (): Promise<HolderGrowthAnalysis | undefined> => {
+    const holders = await holdersTask;
+    if (!holders) {
+      dataSections.holderGrowth = { status: "failed", reason: "No holder data" };
+      return undefined;
+    }
+    try {
+      const growth = await analyzeHolderGrowth(provider, holders.enumeration, getFreshHoldersSample(), now);
+      dataSections.holderGrowth =
+        growth.sampled === 0 || growth.errors === growth.sampled
+          ? { status: "failed", reason: "No first-receipt times found" }
+          : !growth.complete || growth.errors > 0
+            ? {
+                status: "truncated",
+                reason: `Sampled ${growth.sampled - growth.errors} of ${growth.totalHolders} holders`,
+                // A sample is enough for the shares; only failed lookups are missing data
+                completeness: 1 - growth.errors / growth.sampled,
+              }
+            : { status: "ok" };
+      return dataSections.holderGrowth.status === "failed" ? undefined : growth;
+    } catch (err) {
+      dataSections.holderGrowth = { status: "failed", reason: errorMessage(err) };
+      return undefined;
+    }
+  })();
+
+  // Liquidity and 24h tx count from DexScreener (no API key)
+  const dexTask = (async (): Promise<DexScreenerSummary> => {
+    try {
+      const summary = await fetchDexScreenerData(provider, mint);
+      dataSections.market = { status: "ok", reason: summary.pairs ? undefined : "No DEX pairs" };
+      return summary;
+    } catch (err) {
+      dataSections.market = { status: "failed", reason: errorMessage(err) };
+      return {};
+    }
+  })();
+
+  // LP burn / lock for each pool of this token (sets pair.lp)
+  const lpTask = (async () => {
+    const [{ pairs }, { receivedFromCreator }] = await Promise.all([dexTask, creatorTask]);
+    if (!pairs) return;
+    const lpErrors = await Promise.all(
+      pairs.map(async (pair) => {
+        if (!pair.pairAddress) return undefined;
+        try {
+          pair.lp = (await analyzePoolLp(provider, pair.pairAddress, creatorAddress, receivedFromCreator)) ?? undefined;
+          return undefined;
+        } catch (err) {
+          // Pool account unavailable or not decodable; no LP data for this pair
+          return `${pair.quoteSymbol}: ${errorMessage(err)}`;
+        }
+      })
+    ).then((errors) => errors.filter((e): e is string => e !== undefined));
+    const lpAnalyzed = pairs.filter((p) => p.lp).length;
+    dataSections.liquidityPools =
+      lpErrors.length > 0
+        ? {
+            status: lpAnalyzed > 0 ? "truncated" : "failed",
+            reason: lpErrors.join("; "),
+            completeness: lpAnalyzed / (lpAnalyzed + lpErrors.length),
+          }
+        : lpAnalyzed > 0
+          ? { status: "ok" }
+          : { status: "skipped", reason: "No supported pool types (Raydium AMM/CPMM, Meteora DAMM)" };
+  })();
+
+  const overviewTask = (async (): Promise<number | undefined> => {
+    try {
+      const overview = await provider.getTokenOverview(mint);
+      dataSections.marketOverview = overview
+        ? { status: "ok" }
+        : { status: "skipped", reason: "BIRDEYE_API_KEY not set" };
+      const n = overview?.uniqueWallet24h;
+      return typeof n === "number" ? n : undefined;
+    } catch (err) {
+      dataSections.marketOverview = { status: "failed", reason: errorMessage(err) };
+      return undefined;
+    }
+  })();
+
+  // pump.fun bonding curve: reserves, completion and implied price (replaces the dexId guess)
+  const bondingCurveTask = (async (): Promise<BondingCurveState | undefined> => {
+    const dex = await dexTask;
+    const maybePumpFun =
+      attribution.launchpad === "pump_fun" ||
+      mint.endsWith("pump") ||
+      dex.migrationStatus === "bonding_curve" ||
+      dex.migrationStatus === "migrated";
+    if (!maybePumpFun) return undefined;
+    try {
+      const curve = (await fetchBondingCurve(provider, mint, dex.solPriceUsd)) ?? undefined;
+      dataSections.bondingCurve = curve ? { status: "ok" } : { status: "skipped", reason: "No pump.fun bonding curve" };
+      return curve;
+    } catch (err) {
+      dataSections.bondingCurve = { status: "failed", reason: errorMessage(err) };
+      return undefined;
+    }
+  })();
+
+  // Wash trading in the last 24h: discounts DEX activity counts
+  const washTask = (async (): Promise<{ washTrading?: WashTradingAnalysis; recentTxs: HeliusTransaction[] }> => {
+    try {
+      const recent = await fetchRecentTransactions(provider, mint, now, withinDeadline(getWashBudget(), deadline));
+      const washTrading = analyzeWashTrading(recent, mint, await dexTask);
+      dataSections.washTrading = washTrading.complete
+        ? { status: "ok" }
+        : {
+            status: "truncated",
+            reason: truncationReason(washTrading.truncatedReason, `${washTrading.txsAnalyzed} transactions of the last 24h`),
+            completeness: timeCoverage(recent.txs, now, 86400),
+          };
+      return { washTrading, recentTxs: recent.txs };
+    } catch (err) {
+      dataSections.washTrading = { status: "failed", reason: errorMessage(err) };
+      return { recentTxs: [] };
+    }
+  })();
+
+  // Creator's other tokens: liquidity, pairs (swapability) and what became of each
+  const previousTokensTask = (async (): Promise<CreatorPreviousToken[]> => {
+    const [{ txsDesc }, dex] = await Promise.all([creatorTask, dexTask]);
+    const otherMints = getOtherMintsFromCreatorTxs(txsDesc, mint, 8);
+    return mapWithConcurrency(otherMints, PREVIOUS_TOKEN_CONCURRENCY, async (otherMint): Promise<CreatorPreviousToken> => {
+      const [otherDex, latest, asset] = await Promise.all([
+        fetchDexScreenerData(provider, otherMint).catch((): DexScreenerSummary => ({})),
+        provider.getTransactionsByAddress(otherMint, { "sort-order": "desc", limit: 1 }).then(
+          (txs) => txs[0],
+          () => undefined
+        ),
+        provider.getAsset(otherMint).catch(() => null),
+      ]);
+      const liquidityUsd = otherDex.liquidityUsd ?? 0;
+      const pairs = otherDex.pairs ?? [];
+      const metadata = asset?.content?.metadata;
+      return {
+        mint: otherMint,
+        symbol: metadata?.symbol as string | undefined,
+        name: metadata?.name as string | undefined,
+        liquidityUsd,
+        pairs,
+        ...assessPreviousToken(
+          { mint: otherMint, liquidityUsd, pairs },
+          creatorAddress,
+          txsDesc,
+          latest?.timestamp,
+          dex.solPriceUsd ?? otherDex.solPriceUsd,
+          now
+        ),
+      };
+    });
+  })();
+
+  const [creator, fundingPath, holders, holderClusters, holderGrowth, dexData, uniqueTraders24h, bondingCurve, wash, creatorPreviousTokens] =
+    await Promise.all([
+      creatorTask,
+      fundingTask,
+      holdersTask,
+      clustersTask,
+      growthTask,
+      dexTask,
+      overviewTask,
+      bondingCurveTask,
+      washTask,
+      previousTokensTask,
+      lpTask,
+    ]);
+  const creatorTxsDesc = creator.txsDesc;
+  const accountFirstTimestamp = creator.accountFirstTimestamp;
+
+  const creatorAnalysis: CreatorAnalysis = {
+    creatorAddress,
+    launchpad: attribution.launchpad,
+    creatorAttributionMethod: attribution.method,
+    creationFeePayer: creationTx.feePayer !== creatorAddress ? creationTx.feePayer : undefined,
+    creatorFirstTxTimestamp: creatorFirstTxTimestamp ?? accountFirstTimestamp ?? null,
+    accountAgeDays: accountFirstTimestamp != null ? (now - accountFirstTimestamp) / 86400 : null,
+    totalTxCount: creatorTxsDesc.length,
+    txHistoryTruncated: creator.history.truncated,
+    txHistoryTruncatedReason: creator.history.truncatedReason,
+    estimatedTokensCreated: 0,
+    tokenName,
+    tokenSymbol,
+    canMintUnlimited,
+    mintAuthority: decodedMint?.mintAuthority,
+    freezeAuthority: decodedMint?.freezeAuthority,
+    canFreeze: decodedMint ? decodedMint.freezeAuthority !== null : undefined,
+    mintSupplyRaw: decodedMint?.supply.toString(),
+    mintDecimals: decodedMint?.decimals,
+    tokenProgram: decodedMint?.tokenProgram,
+  };
+  if (creatorPreviousTokens.length > 0) Object.assign(creatorAnalysis, summarizeTrackRecord(creatorPreviousTokens));
+
+  if (tokenMetadata?.updateAuthority) {
+    tokenMetadata.updateAuthorityIsCreator = tokenMetadata.updateAuthority === creatorAddress;
+    tokenMetadata.updateAuthorityConnected = creator.receivedFromCreator.has(tokenMetadata.updateAuthority);
+  }
+
+  // Bundles, same-slot buys and snipers in the first transactions (clustered holders' funders
+  // reveal bundles without a Jito tip)
+  const launchFunders = new Map(
+    (holderClusters?.clusters ?? []).flatMap((c) => c.members.map((m) => [m.owner, m.funder] as const))
+  );
+  const launchAnalysis = analyzeLaunch(mintTxsAsc, mint, creatorAddress, supplyUi, launchTxLimit, launchFunders);
+  dataSections.launch = supplyUi
+    ? { status: "ok" }
+    : { status: "truncated", reason: "Mint supply unknown: shares of supply not computed" };
+
+  if (bondingCurve) {
+    const hasAmm = dexData.migrationStatus === "migrated" || dexData.migrationStatus === "amm_only";
+    dexData.migrationStatus = bondingCurve.complete && hasAmm ? "migrated" : "bonding_curve";
+    dexData.migrationLabel = !bondingCurve.complete
+      ? `Bonding curve (${bondingCurve.completionPercent.toFixed(1)}% complete)`
+      : hasAmm
+        ? "Migrated (bonding curve complete)"
+        : "Bonding curve complete (awaiting migration)";
+  }
+  let tokenMarket: TokenMarketStats | undefined;
+  if (dexData.liquidityUsd !== undefined || dexData.txCount24h !== undefined || dexData.pairs !== undefined || dexData.migrationStatus !== undefined || uniqueTraders24h !== undefined || holderGrowth !== undefined) {
+    tokenMarket = {
+      liquidityUsd: dexData.liquidityUsd,
+      pairs: dexData.pairs,
+      txCount24h: dexData.txCount24h,
+      buys24h: dexData.buys24h,
+      sells24h: dexData.sells24h,
+      uniqueTraders24h,
+      freshHolders1dPercent: holderGrowth?.fresh1dPercent,
+      freshHolders7dPercent: holderGrowth?.fresh7dPercent,
+      migrationStatus: dexData.migrationStatus,
+      migrationLabel: dexData.migrationLabel,
+      bondingCurve,
+    };
+  }
+
+  const result = computeRiskScore(
+    {
+      mint,
+      creator: creatorAnalysis,
+      creatorTxs: creatorTxsDesc,
+      holderStats: holders?.stats,
+      tokenMarket,
+      mintExtensions,
+      tokenMetadata,
+      fundingPath,
+      holderClusters,
+      launchAnalysis,
+      washTrading: wash.washTrading,
+      dataSections: inSectionOrder(dataSections),
+      now,
+    },
+    ruleset
+  );
+  result.creatorPreviousTokens = creatorPreviousTokens.length > 0 ? creatorPreviousTokens : undefined;
+  result.holderGrowth = holderGrowth;
+  result.timeline = buildTimeline({
+    mint,
+    creatorAddress,
+    supplyUi,
+    launchTxs: mintTxsAsc,
+    creatorTxs: creatorTxsDesc,
+    recentTxs: wash.recentTxs,
+    holderClusters,
+    poolCreationSignature: launchAnalysis.poolCreationSignature,
+  });
+
+  return result;
+}
@@ -0,0 +1,129 @@
+/**
+ * pump.fun bonding-curve state. The curve account is the PDA ["bonding-curve", mint] of the
+ * pump.fun program; its layout after the 8-byte Anchor discriminator:
+ *
+ *   virtual_token_reserves u64 @8, virtual_sol_reserves u64 @16, real_token_reserves u64 @24,
+ *   real_sol_reserves u64 @32, token_total_supply u64 @40, complete bool @48
+ *
+ * Completion is how much of the initially sellable token reserve has been bought. Server-only.
+ */
+
+import { createHash } from "crypto";
+import type { DataProvider } from "@/lib/providers";
+import { decodeBase58, encodeBase58 } from "@/lib/utils";
+
+const PUMP_FUN_PROGRAM = "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P";
+/** pump.fun tokens have 6 decimals. */
+const TOKEN_DECIMALS = 6;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+/** Real token reserve of a fresh curve: 793.1M tokens are sold before it completes. */
+const INITIAL_REAL_TOKEN_RESERVES = BigInt(793_100_000) * BigInt(10 ** TOKEN_DECIMALS);
+const CURVE_ACCOUNT_MIN_SIZE = 49;
+
+export interface BondingCurveState {
+  address: string;
+  /** SOL. */
+  virtualSolReserves: number;
+  realSolReserves: number;
+  /** Tokens (UI units). */
+  virtualTokenReserves: number;
+  realTokenReserves: number;
+  /** Share of the sellable reserve bought so far (0–100); 100 once complete. */
+  completionPercent: number;
+  /** True once the curve filled up and the token migrated (or can migrate) to an AMM. */
+  complete: boolean;
+  /** Price implied by the virtual reserves. */
+  priceSol: number;
+  priceUsd?: number;
+}
+
+// ed25519 field: a PDA must not be a valid curve point
+const P = (BigInt(1) << BigInt(255)) - BigInt(19);
+const D = (BigInt(-121665) * modPow(BigInt(121666), P - BigInt(2))) % P;
+
+function mod(a: bigint): bigint {
+  const r = a % P;
+  return r >= BigInt(0) ? r : r + P;
+}
+
+function modPow(base: bigint, exp: bigint): bigint {
+  let result = BigInt(1);
+  let b = ((base % P) + P) % P;
+  let e = exp;
+  while (e > BigInt(0)) {
+    if (e & BigInt(1)) result = (result * b) % P;
+    b = (b * b) % P;
+    e >>= BigInt(1);
+  }
+  return result;
+}
+
+/** True if the 32 bytes decompress to an ed25519 point (x² = (y² − 1) / (d·y² + 1) has a root). */
+function isOnCurve(bytes: Uint8Array): boolean {
+  let y = BigInt(0);
+  for (let i = 31; i >= 0; i--) y = (y << BigInt(8)) | BigInt(i === 31 ? bytes[i] & 0x7f : bytes[i]);
+  const y2 = mod(y * y);
+  const x2 = mod((y2 - BigInt(1)) * modPow(mod(D * y2 + BigInt(1)), P - BigInt(2)));
+  return x2 === BigInt(0) || modPow(x2, (P - BigInt(1)) / BigInt(2)) === BigInt(1);
+}
+
+/** Program-derived address (highest bump that is off the curve), like Solana's findProgramAddress. */
+function findProgramAddress(seeds: Uint8Array[], programId: string): string {
+  const program = decodeBase58(programId)!;
+  for (let bump = 255; bump >= 0; bump--) {
+    const hash = createHash("sha256");
+    for (const seed of seeds) hash.update(seed);
+    hash.update(Uint8Array.of(bump)).update(program).update("ProgramDerivedAddress");
+    const candidate = new Uint8Array(hash.digest());
+    if (!isOnCurve(candidate)) return encodeBase58(candidate);
+  }
+  throw new Error("No program address found");
+}
+
+export function getBondingCurveAddress(mint: string): string {
+  return findProgramAddress([Buffer.from("bonding-curve"), decodeBase58(mint)!], PUMP_FUN_PROGRAM);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/**
+ * Reads the mint's pump.fun bonding curve. Null when the mint has no curve (not a pump.fun token)
+ * or the account is not a curve. `solPriceUsd` adds the USD price.
+ */
+export async function fetchBondingCurve(
+  provider: DataProvider,
+  mint: string,
+  solPriceUsd?: number
+): Promise<BondingCurveState | null> {
+  const address = getBondingCurveAddress(mint);
+  const account = await provider.getAccountInfo(address);
+  if (!account || account.owner !== PUMP_FUN_PROGRAM) return null;
+  const buf = Buffer.from(account.data, "base64");
+  if (buf.length < CURVE_ACCOUNT_MIN_SIZE) return null;
+
+  const virtualTokenRaw = buf.readBigUInt64LE(8);
+  const virtualSolRaw = buf.readBigUInt64LE(16);
+  const realTokenRaw = buf.readBigUInt64LE(24);
+  const realSolRaw = buf.readBigUInt64LE(32);
+  const complete = buf[48] === 1;
+
+  const tokens = (raw: bigint) => Number(raw) / 10 ** TOKEN_DECIMALS;
+  const sol = (raw: bigint) => Number(raw) / LAMPORTS_PER_SOL;
+  const sold = INITIAL_REAL_TOKEN_RESERVES - (realTokenRaw < INITIAL_REAL_TOKEN_RESERVES ? realTokenRaw : INITIAL_REAL_TOKEN_RESERVES);
+  const completionPercent = complete ? 100 : round2((Number(sold) / Number(INITIAL_REAL_TOKEN_RESERVES)) * 100);
+  const priceSol = virtualTokenRaw > BigInt(0) ? sol(virtualSolRaw) / tokens(virtualTokenRaw) : 0;
+
+  return {
+    address,
+    virtualSolReserves: sol(virtualSolRaw),
+    realSolReserves: sol(realSolRaw),
+    virtualTokenReserves: tokens(virtualTokenRaw),
+    realTokenReserves: tokens(realTokenRaw),
+    completionPercent,
+    complete,
+    priceSol,
+    priceUsd: solPriceUsd !== undefined ? priceSol * solPriceUsd : undefined,
+  };
+}
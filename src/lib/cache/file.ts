@@ -0,0 +1,62 @@
+/**
+ * Persistent cache: one JSON file per key under `dir` (survives restarts).
+ */
+
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { isExpired, type CacheEntry, type CacheStore } from "./types";
+
+/** Keys look like "<method>:<sha1>"; the method becomes a subdirectory. */
+function entryPath(dir: string, key: string): string {
+  const [prefix, hash] = key.includes(":") ? key.split(":", 2) : ["misc", key];
+  return path.join(dir, prefix.replace(/[^\w-]/g, "_"), `${hash.replace(/[^\w-]/g, "_")}.json`);
+}
+
+export function createFileStore(dir: string): CacheStore {
+  return {
+    name: "file",
+    async get(key) {
+      let entry: CacheEntry;
+      try {
+        entry = JSON.parse(await readFile(entryPath(dir, key), "utf8")) as CacheEntry;
+      } catch {
+        return undefined;
+      }
+      if (isExpired(entry)) {
+        await rm(entryPath(dir, key), { force: true });
+        return undefined;
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      const file = entryPath(dir, key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, JSON.stringify(entry));
+    },
+    async delete(key) {
+      await rm(entryPath(dir, key), { force: true });
+    },
+  };
+}
+
+/**
+ * Memory in front of a persistent store: reads fill memory, writes go to both.
+ */
+export function createTieredStore(front: CacheStore, back: CacheStore): CacheStore {
+  return {
+    name: `${front.name}+${back.name}`,
+    async get(key) {
+      const hit = await front.get(key);
+      if (hit) return hit;
+      const entry = await back.get(key);
+      if (entry) await front.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      await Promise.all([front.set(key, entry), back.set(key, entry)]);
+    },
+    async delete(key) {
+      await Promise.all([front.delete(key), back.delete(key)]);
+    },
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Cache selection from env:
+ *   CACHE_BACKEND=memory (default) | file (memory + files in CACHE_DIR) | off
+ *   CACHE_DIR=.cache (relative to the project root)
+ */
+
+import path from "path";
+import { createFileStore, createTieredStore } from "./file";
+import { createMemoryStore } from "./memory";
+import type { CacheStore } from "./types";
+
+export type { CacheEntry, CacheStore } from "./types";
+export { isExpired } from "./types";
+export { createMemoryStore } from "./memory";
+export { createFileStore, createTieredStore } from "./file";
+export { ttlFor } from "./ttl";
+
+let store: CacheStore | null | undefined;
+
+/** Process-wide cache store, or null when caching is off. */
+export function getCacheStore(): CacheStore | null {
+  if (store !== undefined) return store;
+  const backend = process.env.CACHE_BACKEND?.trim().toLowerCase() || "memory";
+  switch (backend) {
+    case "off":
+      store = null;
+      break;
+    case "memory":
+      store = createMemoryStore();
+      break;
+    case "file": {
+      const dir = path.resolve(process.cwd(), process.env.CACHE_DIR?.trim() || ".cache");
+      store = createTieredStore(createMemoryStore(), createFileStore(dir));
+      break;
+    }
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${backend}" (expected memory, file or off)`);
+  }
+  return store;
+}
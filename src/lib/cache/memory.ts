@@ -0,0 +1,32 @@
+/**
+ * In-process cache (lost on restart). Oldest entries are evicted past `maxEntries`.
+ */
+
+import { isExpired, type CacheEntry, type CacheStore } from "./types";
+
+export function createMemoryStore(maxEntries = 5000): CacheStore {
+  // Map keeps insertion order; re-inserting on read makes eviction least-recently-used
+  const entries = new Map<string, CacheEntry>();
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      entries.delete(key);
+      if (isExpired(entry)) return undefined;
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Per-endpoint cache TTLs (seconds). Infinity = immutable, cache forever; 0 = do not cache.
+ * Override per method with CACHE_TTLS, e.g. CACHE_TTLS='{"getDexPairs":60}'.
+ */
+
+import type { DataProviderMethod, TransactionQuery } from "@/lib/providers/types";
+
+const DEFAULT_TTLS: Record<DataProviderMethod, number> = {
+  /** Newest page of history; older pages and the first transaction are immutable (see ttlFor). */
+  getTransactionsByAddress: 60,
+  getAsset: 600,
+  getTokenAccountsByMint: 120,
+  /** Authorities can be revoked or re-enabled at any time. */
+  getAccountInfo: 60,
+  /** Market data is volatile. */
+  getDexPairs: 30,
+  getTokenOverview: 60,
+};
+
+function envTtls(): Partial<Record<DataProviderMethod, number>> {
+  const raw = process.env.CACHE_TTLS?.trim();
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as Partial<Record<DataProviderMethod, number>>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * TTL for one call and its response. Transaction pages before a known signature and a full
+ * oldest-first page (e.g. the creation transaction) never change.
+ */
+export function ttlFor(method: DataProviderMethod, args: unknown[], value: unknown): number {
+  if (method === "getTransactionsByAddress") {
+    const q = (args[1] ?? {}) as TransactionQuery;
+    if (q["before-signature"]) return Infinity;
+    // An oldest-first page shorter than asked for can still grow (address with little history)
+    if (q["sort-order"] === "asc" && q.limit !== undefined && Array.isArray(value) && value.length >= q.limit) {
+      return Infinity;
+    }
+  }
+  const override = envTtls()[method];
+  return typeof override === "number" && override >= 0 ? override : DEFAULT_TTLS[method];
+}
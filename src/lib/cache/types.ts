@@ -0,0 +1,21 @@
+/**
+ * Cache store abstraction. Values are JSON-serializable upstream responses.
+ */
+
+export interface CacheEntry {
+  value: unknown;
+  /** Unix ms; null = never expires (immutable data). */
+  expiresAt: number | null;
+}
+
+export interface CacheStore {
+  readonly name: string;
+  /** Undefined on miss or expiry. */
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export function isExpired(entry: CacheEntry, now = Date.now()): boolean {
+  return entry.expiresAt !== null && entry.expiresAt <= now;
+}
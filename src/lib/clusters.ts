@@ -0,0 +1,169 @@
+/**
+ * Sybil clusters among top holders: wallets funded by the same wallet, funded within the same
+ * minute, or funded with the same amount on the same day are grouped (transitively), and each
+ * group's combined share of supply is reported.
+ */
+
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { getFirstFunding } from "@/lib/funding";
+import { getLabels } from "@/lib/labels";
+import type { DataProvider } from "@/lib/providers";
+import type { HolderStats } from "@/lib/risk-score";
+import { envInt } from "@/lib/utils";
+
+/** Funded within this many seconds of each other = synchronized. */
+const SYNC_WINDOW_S = 60;
+/** Identical funding amounts only link wallets funded within this window. */
+const SAME_AMOUNT_WINDOW_S = 86400;
+/** Amounts are compared at this precision (SOL). */
+const AMOUNT_PRECISION_SOL = 0.001;
+/** Funding lookups in flight per analysis. */
+const FUNDING_CONCURRENCY = 4;
+
+export type ClusterReason = "common_funder" | "synchronized_funding" | "identical_amount";
+
+export interface ClusterMember {
+  owner: string;
+  percent: number;
+  funder: string;
+  fundedAt: number;
+  fundingAmountSol: number;
+  fundingSignature: string;
+}
+
+export interface HolderCluster {
+  /** "cluster-1" is the largest by supply share. */
+  id: string;
+  reasons: ClusterReason[];
+  /** Funders shared by two or more members. */
+  commonFunders: string[];
+  members: ClusterMember[];
+  supplyPercent: number;
+}
+
+export interface HolderClusterAnalysis {
+  /** Top holders whose funding was looked up. */
+  holdersChecked: number;
+  /** Holders whose first funding could not be found (not clustered). */
+  unfunded: number;
+  /** Largest first. */
+  clusters: HolderCluster[];
+  largestClusterPercent: number;
+  /** Lookups that failed upstream (those holders are not clustered). */
+  errors?: number;
+}
+
+/** Top holders to check from env (HOLDER_CLUSTER_TOP_N, default 20). */
+export function getClusterTopN(): number {
+  return envInt("HOLDER_CLUSTER_TOP_N", 20);
+}
+
+function createUnionFind(n: number) {
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  return {
+    find,
+    union: (a: number, b: number) => {
+      parent[find(a)] = find(b);
+    },
+  };
+}
+
+/**
+ * Looks up the first funding of each holder and groups them. `holders` = top holders, largest first.
+ * Funders labelled as exchanges or bridges do not link wallets (many unrelated users withdraw from them).
+ * Synchronized or identical fundings only link wallets funded by the same or by unlabelled wallets:
+ * two users withdrawing from labelled services at the same time are not related.
+ */
+export async function detectHolderClusters(
+  provider: DataProvider,
+  holders: HolderStats["topHolders"]
+): Promise<HolderClusterAnalysis> {
+  const labels = await getLabels();
+  let errors = 0;
+  const fundings = await mapWithConcurrency(holders, FUNDING_CONCURRENCY, async (h) => {
+    try {
+      return await getFirstFunding(provider, h.owner);
+    } catch {
+      errors++;
+      return null;
+    }
+  });
+
+  const members: ClusterMember[] = [];
+  holders.forEach((h, i) => {
+    const f = fundings[i];
+    if (f) {
+      members.push({
+        owner: h.owner,
+        percent: h.percent,
+        funder: f.from,
+        fundedAt: f.timestamp,
+        fundingAmountSol: f.amountSol,
+        fundingSignature: f.signature,
+      });
+    }
+  });
+
+  const uf = createUnionFind(members.length);
+  const linkReasons = new Map<number, Set<ClusterReason>>();
+  const addLink = (a: number, b: number, reason: ClusterReason) => {
+    uf.union(a, b);
+    for (const i of [a, b]) {
+      const set = linkReasons.get(i) ?? new Set<ClusterReason>();
+      set.add(reason);
+      linkReasons.set(i, set);
+    }
+  };
+  for (let a = 0; a < members.length; a++) {
+    for (let b = a + 1; b < members.length; b++) {
+      const x = members[a];
+      const y = members[b];
+      const categories = [labels.get(x.funder)?.category, labels.get(y.funder)?.category];
+      const shareable = categories.some((c) => c === "cex" || c === "bridge");
+      if (shareable) continue;
+      const sameFunder = x.funder === y.funder;
+      if (sameFunder) addLink(a, b, "common_funder");
+      if (!sameFunder && categories.some((c) => c !== undefined)) continue;
+      const dt = Math.abs(x.fundedAt - y.fundedAt);
+      if (dt <= SYNC_WINDOW_S) addLink(a, b, "synchronized_funding");
+      if (
+        dt <= SAME_AMOUNT_WINDOW_S &&
+        Math.round(x.fundingAmountSol / AMOUNT_PRECISION_SOL) === Math.round(y.fundingAmountSol / AMOUNT_PRECISION_SOL)
+      ) {
+        addLink(a, b, "identical_amount");
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  members.forEach((_, i) => {
+    const root = uf.find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+  const clusters = [...groups.values()]
+    .filter((idx) => idx.length >= 2)
+    .map((idx): Omit<HolderCluster, "id"> => {
+      const list = idx.map((i) => members[i]);
+      const funderCounts = new Map<string, number>();
+      for (const m of list) funderCounts.set(m.funder, (funderCounts.get(m.funder) ?? 0) + 1);
+      const reasons = new Set<ClusterReason>();
+      for (const i of idx) for (const r of linkReasons.get(i) ?? []) reasons.add(r);
+      return {
+        reasons: [...reasons],
+        commonFunders: [...funderCounts].filter(([, n]) => n >= 2).map(([f]) => f),
+        members: list,
+        supplyPercent: Math.round(list.reduce((s, m) => s + m.percent, 0) * 100) / 100,
+      };
+    })
+    .sort((a, b) => b.supplyPercent - a.supplyPercent)
+    .map((c, i) => ({ id: `cluster-${i + 1}`, ...c }));
+
+  return {
+    holdersChecked: holders.length,
+    unfunded: holders.length - members.length - errors,
+    clusters,
+    largestClusterPercent: clusters[0]?.supplyPercent ?? 0,
+    errors: errors > 0 ? errors : undefined,
+  };
+}
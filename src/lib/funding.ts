@@ -0,0 +1,138 @@
+/**
+ * Creator funding trace: follow the first incoming SOL transfer of a wallet back hop by hop
+ * until a labelled source (exchange, mixer, bridge, known deployer), no further funding,
+ * a cycle or the hop limit.
+ */
+
+import type { HeliusTransaction } from "@/lib/helius";
+import { getLabels, type AddressLabel } from "@/lib/labels";
+import type { DataProvider } from "@/lib/providers";
+import { envInt } from "@/lib/utils";
+
+/** Oldest transactions fetched per wallet to find its first funding. */
+const OLDEST_PAGE_SIZE = 20;
+/** Smaller transfers are dust/spam, not funding. */
+const MIN_FUNDING_LAMPORTS = 10_000_000; // 0.01 SOL
+/** A funder first seen less than this before it sent the funding is a fresh intermediary. */
+const FRESH_WINDOW_S = 3 * 86400;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+export interface FundingHop {
+  /** Wallet that sent the SOL. */
+  from: string;
+  /** Wallet that received it (the creator on the first hop). */
+  to: string;
+  amountSol: number;
+  signature: string;
+  timestamp: number;
+  /** Known label of `from`. */
+  label?: AddressLabel;
+  /** First transaction of `from` (unknown if its history was not fetched). */
+  fromFirstSeenAt?: number;
+  /** `from` appeared shortly before it funded `to` (throwaway intermediary). */
+  fromFresh?: boolean;
+}
+
+export type FundingStopReason = "labelled_source" | "no_incoming_sol" | "hop_limit" | "cycle" | "error";
+
+export interface FundingPath {
+  /** Hop 1 funds the creator, hop 2 funds hop 1's sender, and so on. */
+  hops: FundingHop[];
+  stopReason: FundingStopReason;
+  /** Earliest wallet reached (sender of the last hop). */
+  source?: { address: string; label?: AddressLabel };
+  /** Unlabelled senders that were fresh when they sent the funding. */
+  freshIntermediaries: number;
+  /** Upstream error that stopped the trace early (stopReason "error"). */
+  error?: string;
+}
+
+/** Hop limit from env (FUNDING_TRACE_MAX_HOPS, default 4). */
+export function getFundingMaxHops(): number {
+  return envInt("FUNDING_TRACE_MAX_HOPS", 4);
+}
+
+function firstIncomingSol(txs: HeliusTransaction[], wallet: string): Omit<FundingHop, "to"> | null {
+  for (const tx of txs) {
+    for (const t of tx.nativeTransfers ?? []) {
+      if (t.toUserAccount !== wallet || !t.fromUserAccount || t.fromUserAccount === wallet) continue;
+      if ((t.amount ?? 0) < MIN_FUNDING_LAMPORTS) continue;
+      return {
+        from: t.fromUserAccount,
+        amountSol: (t.amount ?? 0) / LAMPORTS_PER_SOL,
+        signature: tx.signature,
+        timestamp: tx.timestamp,
+      };
+    }
+  }
+  return null;
+}
+
+function oldestTransactions(provider: DataProvider, wallet: string): Promise<HeliusTransaction[]> {
+  return provider.getTransactionsByAddress(wallet, { "sort-order": "asc", limit: OLDEST_PAGE_SIZE });
+}
+
+/** A wallet's first incoming SOL transfer (sender, amount, time). Null if none among its oldest transactions. */
+export async function getFirstFunding(
+  provider: DataProvider,
+  wallet: string
+): Promise<Omit<FundingHop, "to"> | null> {
+  return firstIncomingSol(await oldestTransactions(provider, wallet), wallet);
+}
+
+/**
+ * Traces where `wallet`'s SOL came from. Throws if the wallet's own history cannot be fetched;
+ * later upstream failures end the trace with stopReason "error".
+ */
+export async function traceFunding(
+  provider: DataProvider,
+  wallet: string,
+  maxHops = getFundingMaxHops()
+): Promise<FundingPath> {
+  const labels = await getLabels();
+  const hops: FundingHop[] = [];
+  const seen = new Set([wallet]);
+  let stopReason: FundingStopReason = "hop_limit";
+  let error: string | undefined;
+  let current = wallet;
+  let txs = await oldestTransactions(provider, wallet);
+
+  while (hops.length < maxHops) {
+    const funding = firstIncomingSol(txs, current);
+    if (!funding) {
+      stopReason = "no_incoming_sol";
+      break;
+    }
+    const hop: FundingHop = { ...funding, to: current, label: labels.get(funding.from) };
+    hops.push(hop);
+    if (hop.label) {
+      stopReason = "labelled_source";
+      break;
+    }
+    if (seen.has(hop.from)) {
+      stopReason = "cycle";
+      break;
+    }
+    seen.add(hop.from);
+    // The sender's oldest page gives both its age (fresh?) and its own funding (next hop)
+    try {
+      txs = await oldestTransactions(provider, hop.from);
+    } catch (err) {
+      stopReason = "error";
+      error = err instanceof Error ? err.message : "Upstream error";
+      break;
+    }
+    hop.fromFirstSeenAt = txs[0]?.timestamp;
+    hop.fromFresh = hop.fromFirstSeenAt !== undefined && hop.timestamp - hop.fromFirstSeenAt < FRESH_WINDOW_S;
+    current = hop.from;
+  }
+
+  const last = hops[hops.length - 1];
+  return {
+    hops,
+    stopReason,
+    source: last ? { address: last.from, label: last.label } : undefined,
+    freshIntermediaries: hops.filter((h) => h.fromFresh && !h.label).length,
+    error,
+  };
+}
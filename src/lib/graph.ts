@@ -0,0 +1,136 @@
+/**
+ * Connection graph of one analysis: creator, top holders, funders, pools and labelled entities
+ * as nodes; SOL/token transfers, funding and LP ownership as typed edges. Built only from
+ * data already in the analysis result (no extra upstream calls), so it is safe on the client too.
+ */
+
+import type { AddressLabel } from "@/lib/labels";
+import type { RiskResult } from "@/lib/risk-score";
+
+export type GraphNodeKind = "creator" | "holder" | "funder" | "pool" | "labelled";
+
+export type GraphEdgeKind = "sol_transfer" | "token_transfer" | "funding" | "lp";
+
+export interface GraphNode {
+  /** Wallet, pool or entity address. */
+  id: string;
+  /** Most specific role (creator > labelled > holder > pool > funder). */
+  kind: GraphNodeKind;
+  /** Share of token supply, if the node is a top holder. */
+  percent?: number;
+  /** Holder cluster this node belongs to (see HolderClusterAnalysis). */
+  clusterId?: string;
+  /** Known label (exchange, mixer, ...). */
+  entity?: AddressLabel;
+  /** Pool only: DEX, quote symbol and liquidity. */
+  pool?: { dexId?: string; quoteSymbol: string; liquidityUsd: number };
+  /** Fresh wallet that passed funding on (funding trace). */
+  fresh?: boolean;
+}
+
+export interface GraphEdge {
+  /** `${kind}:${source}:${target}` — one edge per kind and direction. */
+  id: string;
+  source: string;
+  target: string;
+  kind: GraphEdgeKind;
+  amountSol?: number;
+  /** LP edges: share of the pool's LP held. */
+  percent?: number;
+  signature?: string;
+  /** Unix seconds. */
+  timestamp?: number;
+}
+
+export interface ConnectionGraph {
+  mint: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** Cluster ids present on nodes, largest cluster first. */
+  clusters: Array<{ id: string; supplyPercent: number }>;
+}
+
+const KIND_RANK: Record<GraphNodeKind, number> = { creator: 4, labelled: 3, holder: 2, pool: 1, funder: 0 };
+
+export function buildConnectionGraph(result: RiskResult): ConnectionGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  const addNode = (id: string, kind: GraphNodeKind, extra: Omit<Partial<GraphNode>, "id" | "kind"> = {}) => {
+    const existing = nodes.get(id);
+    if (!existing) {
+      nodes.set(id, { id, kind, ...extra });
+      return;
+    }
+    if (KIND_RANK[kind] > KIND_RANK[existing.kind]) existing.kind = kind;
+    Object.assign(existing, Object.fromEntries(Object.entries(extra).filter(([, v]) => v !== undefined)));
+  };
+  const addEdge = (edge: Omit<GraphEdge, "id">) => {
+    const id = `${edge.kind}:${edge.source}:${edge.target}`;
+    if (!edges.has(id)) edges.set(id, { id, ...edge });
+  };
+
+  const creator = result.creator.creatorAddress;
+  addNode(creator, "creator");
+
+  for (const h of result.holderStats?.topHolders ?? []) {
+    addNode(h.owner, h.label ? "labelled" : "holder", { percent: h.percent, entity: h.label });
+  }
+
+  for (const h of result.holderStats?.creatorConnectedHolders ?? []) {
+    addNode(h.owner, "holder", { percent: h.percent });
+    // Older snapshots have no `via`; the transfer was SOL or tokens
+    for (const kind of h.via ?? ["sol"]) {
+      addEdge({
+        source: creator,
+        target: h.owner,
+        kind: kind === "token" ? "token_transfer" : "sol_transfer",
+        timestamp: h.firstReceivedAt,
+      });
+    }
+  }
+
+  for (const hop of result.fundingPath?.hops ?? []) {
+    addNode(hop.from, hop.label ? "labelled" : "funder", { entity: hop.label, fresh: hop.fromFresh || undefined });
+    addEdge({
+      source: hop.from,
+      target: hop.to,
+      kind: "funding",
+      amountSol: hop.amountSol,
+      signature: hop.signature,
+      timestamp: hop.timestamp,
+    });
+  }
+
+  for (const cluster of result.holderClusters?.clusters ?? []) {
+    for (const m of cluster.members) {
+      addNode(m.owner, "holder", { percent: m.percent, clusterId: cluster.id });
+      addNode(m.funder, "funder");
+      addEdge({
+        source: m.funder,
+        target: m.owner,
+        kind: "funding",
+        amountSol: m.fundingAmountSol,
+        signature: m.fundingSignature,
+        timestamp: m.fundedAt,
+      });
+    }
+  }
+
+  for (const pair of result.tokenMarket?.pairs ?? []) {
+    if (!pair.pairAddress) continue;
+    addNode(pair.pairAddress, "pool", {
+      pool: { dexId: pair.dexId, quoteSymbol: pair.quoteSymbol, liquidityUsd: pair.liquidityUsd },
+    });
+    if (pair.lp && pair.lp.creatorHeldPercent > 0) {
+      addEdge({ source: creator, target: pair.pairAddress, kind: "lp", percent: pair.lp.creatorHeldPercent });
+    }
+  }
+
+  return {
+    mint: result.mint,
+    nodes: [...nodes.values()],
+    edges: [...edges.values()],
+    clusters: (result.holderClusters?.clusters ?? []).map((c) => ({ id: c.id, supplyPercent: c.supplyPercent })),
+  };
+}
@@ -3,7 +3,11 @@
  * All keys must come from env (HELIUS_API_KEY).
  */
 
+import { createRequestExecutor, getHeliusPolicy, type RequestExecutor } from "@/lib/request-executor";
+import { encodeBase58 } from "@/lib/utils";
+
 const HELIUS_API_BASE = "https://api-mainnet.helius-rpc.com";
+const HELIUS_RPC_BASE = "https://mainnet.helius-rpc.com";
 
 const PLACEHOLDER_KEY = "your_helius_api_key_here";
 const INVALID_KEY_MSG =
@@ -29,15 +33,41 @@ function getApiKey(): string {
   return key;
 }
 
+function getRpcUrl(): string {
+  return `${HELIUS_RPC_BASE}/?api-key=${encodeURIComponent(getApiKey())}`;
+}
+
+let executor: RequestExecutor | undefined;
+
+/**
+ * fetch for every Helius call: retries, backoff and rate limits (see request-executor.ts),
+ * budgeted per API key.
+ */
+function heliusFetch(url: string, init?: RequestInit): Promise<Response> {
+  executor ??= createRequestExecutor("Helius", getHeliusPolicy());
+  return executor.execute(getApiKey(), url, init);
+}
+
+/** One instruction of an enhanced transaction (data is base58). */
+export interface HeliusInstruction {
+  programId: string;
+  accounts: string[];
+  data: string;
+  innerInstructions?: HeliusInstruction[];
+}
+
 export interface HeliusTransaction {
   signature: string;
   timestamp: number;
+  slot?: number;
   feePayer: string;
   type?: string;
   source?: string;
   description?: string;
   nativeTransfers?: Array<{ fromUserAccount?: string; toUserAccount?: string; amount?: number }>;
-  tokenTransfers?: Array<{ fromUserAccount?: string; toUserAccount?: string; mint?: string }>;
+  /** tokenAmount is in UI units (decimals applied). */
+  tokenTransfers?: Array<{ fromUserAccount?: string; toUserAccount?: string; mint?: string; tokenAmount?: number }>;
+  instructions?: HeliusInstruction[];
 }
 
 /**
@@ -62,7 +92,7 @@ export async function getTransactionsByAddress(
     params.set("before-signature", options["before-signature"]);
   }
   const url = `${HELIUS_API_BASE}/v0/addresses/${encodeURIComponent(address)}/transactions?${params}`;
-  const res = await fetch(url, { next: { revalidate: 0 } });
+  const res = await heliusFetch(url, { next: { revalidate: 0 } });
   if (res.status === 401) {
     throw new Error(INVALID_KEY_MSG);
   }
@@ -108,31 +138,62 @@ export function getWalletsReceivedFromCreator(
   return receivedBy;
 }
 
-/**
- * Fetches asset (token/NFT) by id (mint). DAS API via Helius RPC.
- */
-export async function getAsset(
-  mintAddress: string
-): Promise<{
+export type CreatorTransferKind = "sol" | "token";
+
+/** What the creator sent to each wallet it sent anything to (SOL, tokens or both). */
+export function getCreatorTransferKinds(
+  creatorTxs: HeliusTransaction[],
+  creatorAddress: string
+): Map<string, Set<CreatorTransferKind>> {
+  const kinds = new Map<string, Set<CreatorTransferKind>>();
+  const add = (to: string, kind: CreatorTransferKind) => {
+    const set = kinds.get(to) ?? new Set<CreatorTransferKind>();
+    set.add(kind);
+    kinds.set(to, set);
+  };
+  for (const tx of creatorTxs) {
+    for (const t of tx.nativeTransfers ?? []) {
+      if (t.fromUserAccount === creatorAddress && t.toUserAccount) add(t.toUserAccount, "sol");
+    }
+    for (const t of tx.tokenTransfers ?? []) {
+      if (t.fromUserAccount === creatorAddress && t.toUserAccount) add(t.toUserAccount, "token");
+    }
+  }
+  return kinds;
+}
+
+/** Asset (token/NFT) as returned by DAS getAsset — only the fields we use. */
+export interface HeliusAsset {
   id: string;
   creators?: Array<{ address: string }>;
-  content?: { metadata?: { name?: string; symbol?: string } };
+  content?: {
+    /** Off-chain metadata JSON URI (Metaplex `uri`). */
+    json_uri?: string;
+    metadata?: { name?: string; symbol?: string; token_standard?: string };
+  };
+  /** Metaplex metadata authorities; scope "full" = update authority. */
+  authorities?: Array<{ address: string; scopes?: string[] }>;
+  /** False once metadata is made immutable (name/symbol/URI can no longer change). */
+  mutable?: boolean;
   token_info?: {
     supply?: string;
     decimals?: number;
     /** If set, creator can mint more tokens (unlimited supply risk). If null/revoked, supply is fixed. */
     mint_authority?: string | null;
   };
-} | null> {
-  const apiKey = getApiKey();
-  const rpcUrl = `https://mainnet.helius-rpc.com/?api-key=${encodeURIComponent(apiKey)}`;
+}
+
+/**
+ * Fetches asset (token/NFT) by id (mint). DAS API via Helius RPC.
+ */
+export async function getAsset(mintAddress: string): Promise<HeliusAsset | null> {
   const body = {
     jsonrpc: "2.0",
     id: "1",
     method: "getAsset",
     params: { id: mintAddress },
   };
-  const res = await fetch(rpcUrl, {
+  const res = await heliusFetch(getRpcUrl(), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(body),
@@ -155,74 +216,148 @@ export async function getAsset(
   if (!raw) return null;
   return {
     id: (raw.id as string) ?? mintAddress,
-    creators: raw.creators as Array<{ address: string }> | undefined,
-    content: raw.content as { metadata?: { name?: string; symbol?: string } } | undefined,
-    token_info: raw.token_info as {
-      supply?: string;
-      decimals?: number;
-      mint_authority?: string | null;
-    } | undefined,
+    creators: raw.creators as HeliusAsset["creators"],
+    content: raw.content as HeliusAsset["content"],
+    authorities: raw.authorities as HeliusAsset["authorities"],
+    mutable: typeof raw.mutable === "boolean" ? raw.mutable : undefined,
+    token_info: raw.token_info as HeliusAsset["token_info"],
   };
 }
 
-/** SPL Token mint account: byte 10 = mint_authority option (0 = revoked, 1 = set). */
-const MINT_AUTHORITY_OPTION_OFFSET = 10;
+/** Raw account as returned by RPC getAccountInfo (base64 encoding). */
+export interface AccountInfo {
+  /** Account data, base64-encoded. */
+  data: string;
+  /** Program that owns the account (e.g. SPL Token or Token-2022 for mints). */
+  owner: string;
+}
 
 /**
- * Returns true if mint authority is set (creator can mint more), false if revoked. Uses RPC getAccountInfo for plain SPL mints when DAS getAsset has no token_info.
+ * Fetches a raw account via RPC getAccountInfo. Returns null when the account does not exist.
  */
-export async function getMintAuthoritySet(
-  mintAddress: string
-): Promise<boolean | null> {
-  const apiKey = getApiKey();
-  const rpcUrl = `https://mainnet.helius-rpc.com/?api-key=${encodeURIComponent(apiKey)}`;
-  const res = await fetch(rpcUrl, {
+export async function getAccountInfo(address: string): Promise<AccountInfo | null> {
+  const res = await heliusFetch(getRpcUrl(), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
       jsonrpc: "2.0",
       id: "1",
       method: "getAccountInfo",
-      params: [mintAddress, { encoding: "base64" }],
+      params: [address, { encoding: "base64" }],
     }),
     next: { revalidate: 0 },
   });
+  if (res.status === 401) {
+    throw new Error(INVALID_KEY_MSG);
+  }
   const json = (await res.json()) as {
-    result?: { value?: { data: string } };
+    result?: { value?: { data?: [string, string] | string; owner?: string } | null };
     error?: { message?: string };
   };
-  if (json.error || !json.result?.value?.data) return null;
+  if (json.error) {
+    throw new Error(`Helius getAccountInfo: ${json.error.message ?? "Unknown"}`);
+  }
+  const value = json.result?.value;
+  if (!value?.data) return null;
+  const data = Array.isArray(value.data) ? value.data[0] : value.data;
+  return { data, owner: value.owner ?? "" };
+}
+
+/**
+ * Metaplex update authority from DAS authorities (scope "full" or "metadata"). Null if none listed.
+ */
+export function getUpdateAuthority(asset: HeliusAsset): string | null {
+  const auth = asset.authorities?.find((a) => a.scopes?.some((s) => s === "full" || s === "metadata"));
+  return auth?.address ?? null;
+}
+
+export const TOKEN_PROGRAM_ID = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+export const TOKEN_2022_PROGRAM_ID = "TokenzQdBNbLqP5VEhdkAS5EPFLC1KpjJp7Kgmu29Rb";
+
+/**
+ * SPL Token mint layout (82 bytes, shared by Token-2022 before its extensions):
+ *   0..4   mint_authority COption tag (u32 LE, 0 = none, 1 = some)
+ *   4..36  mint_authority pubkey
+ *   36..44 supply (u64 LE)
+ *   44     decimals
+ *   45     is_initialized
+ *   46..50 freeze_authority COption tag
+ *   50..82 freeze_authority pubkey
+ */
+export const MINT_SIZE = 82;
+
+export interface DecodedMint {
+  /** Null = revoked: no more tokens can be minted. */
+  mintAuthority: string | null;
+  supply: bigint;
+  decimals: number;
+  isInitialized: boolean;
+  /** Null = revoked. If set, this key can freeze any holder's token account. */
+  freezeAuthority: string | null;
+  tokenProgram: "spl-token" | "token-2022" | "unknown";
+}
+
+function readCOptionPubkey(buf: Buffer, offset: number): string | null {
+  return buf.readUInt32LE(offset) === 1 ? encodeBase58(buf.subarray(offset + 4, offset + 36)) : null;
+}
+
+/**
+ * Decodes mint account data (SPL Token or Token-2022 base layout). Null if the data is not a mint.
+ */
+export function decodeMint(account: AccountInfo): DecodedMint | null {
   try {
-    const buf = Buffer.from(json.result.value.data, "base64");
-    if (buf.length < MINT_AUTHORITY_OPTION_OFFSET + 1) return null;
-    return buf[MINT_AUTHORITY_OPTION_OFFSET] === 1;
+    const buf = Buffer.from(account.data, "base64");
+    if (buf.length < MINT_SIZE) return null;
+    return {
+      mintAuthority: readCOptionPubkey(buf, 0),
+      supply: buf.readBigUInt64LE(36),
+      decimals: buf[44],
+      isInitialized: buf[45] === 1,
+      freezeAuthority: readCOptionPubkey(buf, 46),
+      tokenProgram:
+        account.owner === TOKEN_PROGRAM_ID
+          ? "spl-token"
+          : account.owner === TOKEN_2022_PROGRAM_ID
+            ? "token-2022"
+            : "unknown",
+    };
   } catch {
     return null;
   }
 }
 
 export interface TokenAccountHolder {
+  /** Token account address (when returned by DAS). */
+  address?: string;
   owner: string;
   amount: string;
 }
 
+export interface TokenAccountsPage {
+  token_accounts: TokenAccountHolder[];
+  /** Accounts in this page (DAS does not return a grand total). */
+  total: number;
+  /** Cursor for the next page; absent on the last page. */
+  cursor?: string;
+}
+
 /**
- * Fetches token accounts by mint (holders). Uses pagination; for MVP we fetch up to limit.
+ * Fetches one page of token accounts by mint (holders). Pass the previous page's cursor to continue.
  * Amounts are in raw units (with decimals).
  */
 export async function getTokenAccountsByMint(
   mintAddress: string,
-  limit = 1000
-): Promise<{ token_accounts: TokenAccountHolder[]; total: number }> {
-  const apiKey = getApiKey();
-  const rpcUrl = `https://mainnet.helius-rpc.com/?api-key=${encodeURIComponent(apiKey)}`;
+  options: { limit?: number; cursor?: string } = {}
+): Promise<TokenAccountsPage> {
+  const params: Record<string, unknown> = { mint: mintAddress, limit: options.limit ?? 1000 };
+  if (options.cursor) params.cursor = options.cursor;
   const body = {
     jsonrpc: "2.0",
     id: "1",
     method: "getTokenAccounts",
-    params: { mint: mintAddress, limit },
+    params,
   };
-  const res = await fetch(rpcUrl, {
+  const res = await heliusFetch(getRpcUrl(), {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(body),
@@ -237,11 +372,13 @@ export async function getTokenAccountsByMint(
   }
   const json = (await res.json()) as {
     result?: {
-      token_accounts?: Array< { owner?: string; amount?: number | string } >;
+      token_accounts?: Array< { address?: string; owner?: string; amount?: number | string } >;
       total?: number;
+      cursor?: string;
     };
-    token_accounts?: Array< { owner?: string; amount?: number | string } >;
+    token_accounts?: Array< { address?: string; owner?: string; amount?: number | string } >;
     total?: number;
+    cursor?: string;
     error?: { message?: string };
   };
   if (json.error) {
@@ -251,8 +388,9 @@ export async function getTokenAccountsByMint(
   const accounts = data.token_accounts ?? [];
   const total = data.total ?? accounts.length;
   const token_accounts: TokenAccountHolder[] = accounts.map((a) => ({
+    address: a.address,
     owner: String(a.owner ?? ""),
     amount: String(a.amount ?? 0),
   }));
-  return { token_accounts, total };
+  return { token_accounts, total, cursor: data.cursor || undefined };
 }
@@ -0,0 +1,125 @@
+/**
+ * Paginated transaction history (newest first) via the `before-signature` cursor.
+ * Bounded by page and time budgets so one busy wallet cannot exhaust maxDuration.
+ */
+
+import type { HeliusTransaction } from "@/lib/helius";
+import { MissingRecordingError, type DataProvider } from "@/lib/providers";
+import { envInt } from "@/lib/utils";
+
+/** Helius Enhanced Transactions API maximum page size. */
+const MAX_PAGE_SIZE = 100;
+
+/** Limits for paginated upstream enumeration (history, holders). */
+export interface PageBudget {
+  /** Items per request (capped by the endpoint's maximum). */
+  pageSize?: number;
+  /** Stop after this many pages. */
+  maxPages?: number;
+  /** Stop starting new pages after this many milliseconds. */
+  timeBudgetMs?: number;
+}
+
+export interface TransactionHistory {
+  transactions: HeliusTransaction[];
+  pagesFetched: number;
+  /** True if older history exists that was not fetched (budget exhausted). */
+  truncated: boolean;
+  truncatedReason?: TruncatedReason;
+}
+
+export type TruncatedReason = "max_pages" | "time_budget";
+
+/** Budget for creator history from env (CREATOR_HISTORY_MAX_PAGES, CREATOR_HISTORY_TIME_BUDGET_MS). */
+export function getCreatorHistoryBudget(): PageBudget {
+  return {
+    pageSize: MAX_PAGE_SIZE,
+    maxPages: envInt("CREATOR_HISTORY_MAX_PAGES", 20),
+    timeBudgetMs: envInt("CREATOR_HISTORY_TIME_BUDGET_MS", 12000),
+  };
+}
+
+/**
+ * Deadline of a time budget (epoch ms). Replays ignore time budgets, which depend on how fast
+ * responses arrive; a loop that stopped on its budget while recording ends where the recording
+ * does instead (see isRecordingEnd).
+ */
+export function budgetDeadline(provider: DataProvider, budget: PageBudget): number {
+  if (budget.timeBudgetMs === undefined || provider.name === "replay") return Infinity;
+  return Date.now() + budget.timeBudgetMs;
+}
+
+/** True if a follow-up page of a time-budgeted loop was not recorded: recording stopped on the time budget there. */
+export function isRecordingEnd(err: unknown, budget: PageBudget): boolean {
+  return err instanceof MissingRecordingError && budget.timeBudgetMs !== undefined;
+}
+
+/**
+ * Yields pages of transactions, newest first, until history ends or the budget runs out.
+ * When the budget stops iteration, the returned value says why.
+ */
+export async function* iterateTransactionPages(
+  provider: DataProvider,
+  address: string,
+  budget: PageBudget = {}
+): AsyncGenerator<HeliusTransaction[], TruncatedReason | undefined> {
+  const pageSize = Math.min(Math.max(budget.pageSize ?? MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const maxPages = budget.maxPages ?? Infinity;
+  const deadline = budgetDeadline(provider, budget);
+  let before: string | undefined;
+  let pages = 0;
+
+  for (;;) {
+    if (pages >= maxPages) return "max_pages";
+    if (Date.now() >= deadline) return "time_budget";
+    let page: HeliusTransaction[];
+    try {
+      page = await provider.getTransactionsByAddress(address, {
+        "sort-order": "desc",
+        limit: pageSize,
+        "before-signature": before,
+      });
+    } catch (err) {
+      if (pages > 0 && isRecordingEnd(err, budget)) return "time_budget";
+      throw err;
+    }
+    pages++;
+    // Helius may return short pages mid-history; only an empty page marks the end
+    if (page.length === 0) return undefined;
+    yield page;
+    const last = page[page.length - 1].signature;
+    if (!last || last === before) return undefined;
+    before = last;
+  }
+}
+
+/**
+ * Collects the full history (or as much as the budget allows) for an address.
+ */
+export async function fetchTransactionHistory(
+  provider: DataProvider,
+  address: string,
+  budget: PageBudget = {}
+): Promise<TransactionHistory> {
+  const transactions: HeliusTransaction[] = [];
+  const seen = new Set<string>();
+  let pagesFetched = 0;
+  const it = iterateTransactionPages(provider, address, budget);
+  for (;;) {
+    const next = await it.next();
+    if (next.done) {
+      return {
+        transactions,
+        pagesFetched,
+        truncated: next.value !== undefined,
+        truncatedReason: next.value,
+      };
+    }
+    pagesFetched++;
+    for (const tx of next.value) {
+      if (seen.has(tx.signature)) continue;
+      seen.add(tx.signature);
+      transactions.push(tx);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Holder growth from first-receipt times: a holder's first receipt is the oldest transaction of
+ * its token account. With many holders an evenly spaced sample across the balance ranking (from
+ * whales to dust) is looked up (FRESH_HOLDERS_SAMPLE). Reports the share of holders that arrived
+ * in the last 1 and 7 days and a histogram of arrivals.
+ */
+
+import { mapWithConcurrency } from "@/lib/concurrency";
+import type { TokenAccountsEnumeration } from "@/lib/holders";
+import type { DataProvider } from "@/lib/providers";
+import { envInt } from "@/lib/utils";
+
+/** First-receipt lookups at once. */
+const LOOKUP_CONCURRENCY = 4;
+/** The histogram has at most this many buckets (whole days each). */
+const MAX_BUCKETS = 60;
+const DAY_S = 86400;
+
+export interface HolderGrowthBucket {
+  /** Unix seconds, bucket start (inclusive) and end (exclusive). */
+  from: number;
+  to: number;
+  /** Sampled holders whose first receipt falls in the bucket. */
+  holders: number;
+  /** Share of the sampled holders (0–100). */
+  percent: number;
+}
+
+export interface HolderGrowthAnalysis {
+  /** Holders with a balance and a known token account (lower bound when the enumeration was partial). */
+  totalHolders: number;
+  /** Holders whose first receipt was looked up. */
+  sampled: number;
+  /** False when only a sample of the holders was looked up. */
+  complete: boolean;
+  /** Lookups that failed or found no transaction (left out of the percentages). */
+  errors: number;
+  fresh1dPercent: number;
+  fresh7dPercent: number;
+  /** Oldest first. */
+  histogram: HolderGrowthBucket[];
+}
+
+/** Holders to look up from env (FRESH_HOLDERS_SAMPLE, default 50). */
+export function getFreshHoldersSample(): number {
+  return Math.max(1, envInt("FRESH_HOLDERS_SAMPLE", 50));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Largest token account of each holder with a balance, largest holder first. */
+function holderAccounts(enumeration: TokenAccountsEnumeration): string[] {
+  const best = new Map<string, { address: string; amount: bigint }>();
+  for (const a of enumeration.accounts) {
+    if (!a.address || !a.owner) continue;
+    const amount = BigInt(a.amount ?? "0");
+    if (amount <= BigInt(0)) continue;
+    const cur = best.get(a.owner);
+    if (!cur || amount > cur.amount) best.set(a.owner, { address: a.address, amount });
+  }
+  return [...best.values()].sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0)).map((a) => a.address);
+}
+
+/** `n` evenly spaced items (all of them when there are fewer). */
+function evenlySpaced<T>(items: T[], n: number): T[] {
+  if (items.length <= n) return items;
+  return Array.from({ length: n }, (_, i) => items[Math.floor((i * items.length) / n)]);
+}
+
+/** Arrivals per bucket of whole days, from the first arrival up to `now`. */
+function buildHistogram(firstReceipts: number[], now: number): HolderGrowthBucket[] {
+  if (firstReceipts.length === 0) return [];
+  const start = Math.floor(Math.min(...firstReceipts) / DAY_S) * DAY_S;
+  const span = Math.max(DAY_S, now - start);
+  const bucketS = Math.max(1, Math.ceil(span / DAY_S / MAX_BUCKETS)) * DAY_S;
+  const buckets: HolderGrowthBucket[] = [];
+  for (let from = start; from < now; from += bucketS) buckets.push({ from, to: from + bucketS, holders: 0, percent: 0 });
+  for (const t of firstReceipts) {
+    const i = Math.min(buckets.length - 1, Math.floor((t - start) / bucketS));
+    buckets[i].holders++;
+  }
+  for (const b of buckets) b.percent = round2((b.holders / firstReceipts.length) * 100);
+  return buckets;
+}
+
+/** Looks up first-receipt times of (a sample of) the mint's holders. */
+export async function analyzeHolderGrowth(
+  provider: DataProvider,
+  enumeration: TokenAccountsEnumeration,
+  sampleSize = getFreshHoldersSample(),
+  now = Math.floor(Date.now() / 1000)
+): Promise<HolderGrowthAnalysis> {
+  const accounts = holderAccounts(enumeration);
+  const sample = evenlySpaced(accounts, sampleSize);
+  const times = await mapWithConcurrency(sample, LOOKUP_CONCURRENCY, (address) =>
+    provider.getTransactionsByAddress(address, { "sort-order": "asc", limit: 1 }).then(
+      (txs) => txs[0]?.timestamp,
+      () => undefined
+    )
+  );
+  const firstReceipts = times.filter((t): t is number => t !== undefined);
+  const share = (since: number) =>
+    firstReceipts.length > 0 ? round2((firstReceipts.filter((t) => t >= since).length / firstReceipts.length) * 100) : 0;
+
+  return {
+    totalHolders: accounts.length,
+    sampled: sample.length,
+    complete: sample.length === accounts.length && !enumeration.truncated,
+    errors: sample.length - firstReceipts.length,
+    fresh1dPercent: share(now - DAY_S),
+    fresh7dPercent: share(now - 7 * DAY_S),
+    histogram: buildHistogram(firstReceipts, now),
+  };
+}
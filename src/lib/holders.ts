@@ -0,0 +1,195 @@
+/**
+ * Holder enumeration (all token accounts of a mint, cursor-paginated) and distribution stats.
+ */
+
+import type { TokenAccountHolder, TokenAccountsPage } from "@/lib/helius";
+import { budgetDeadline, isRecordingEnd, type PageBudget, type TruncatedReason } from "@/lib/history";
+import type { AddressLabel, LabelCategory } from "@/lib/labels";
+import type { DataProvider } from "@/lib/providers";
+import type { HolderStats } from "@/lib/risk-score";
+import { envInt } from "@/lib/utils";
+
+/** DAS getTokenAccounts maximum page size. */
+const MAX_PAGE_SIZE = 1000;
+
+/** Largest owners looked up in the label registry (see topOwners). */
+export const LABELLED_HOLDERS_TOP_N = 20;
+
+/**
+ * Labelled accounts that hold tokens for a curve, pool, lock or exchange customers — or for
+ * nobody (burn). They are left out of the adjusted concentration.
+ */
+const NON_HOLDER_CATEGORIES = new Set<LabelCategory>(["burn", "program_vault", "pool", "locker", "cex"]);
+
+export function isNonHolderLabel(label: AddressLabel | undefined): boolean {
+  return label !== undefined && NON_HOLDER_CATEGORIES.has(label.category);
+}
+
+export interface TokenAccountsEnumeration {
+  accounts: TokenAccountHolder[];
+  pagesFetched: number;
+  /** True if more accounts exist that were not fetched (budget exhausted). */
+  truncated: boolean;
+  truncatedReason?: TruncatedReason;
+}
+
+/** Budget for holder enumeration from env (HOLDERS_MAX_PAGES, HOLDERS_TIME_BUDGET_MS). */
+export function getHoldersBudget(): PageBudget {
+  return {
+    pageSize: MAX_PAGE_SIZE,
+    maxPages: envInt("HOLDERS_MAX_PAGES", 10),
+    timeBudgetMs: envInt("HOLDERS_TIME_BUDGET_MS", 8000),
+  };
+}
+
+/**
+ * Fetches all token accounts of a mint (or as many as the budget allows).
+ */
+export async function fetchAllTokenAccounts(
+  provider: DataProvider,
+  mint: string,
+  budget: PageBudget = {}
+): Promise<TokenAccountsEnumeration> {
+  const pageSize = Math.min(Math.max(budget.pageSize ?? MAX_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const maxPages = budget.maxPages ?? Infinity;
+  const deadline = budgetDeadline(provider, budget);
+  const accounts: TokenAccountHolder[] = [];
+  let cursor: string | undefined;
+  let pagesFetched = 0;
+
+  for (;;) {
+    let page: TokenAccountsPage;
+    try {
+      page = await provider.getTokenAccountsByMint(mint, { limit: pageSize, cursor });
+    } catch (err) {
+      if (pagesFetched > 0 && isRecordingEnd(err, budget)) {
+        return { accounts, pagesFetched, truncated: true, truncatedReason: "time_budget" };
+      }
+      throw err;
+    }
+    pagesFetched++;
+    accounts.push(...page.token_accounts);
+    if (!page.cursor || page.token_accounts.length === 0 || page.cursor === cursor) {
+      return { accounts, pagesFetched, truncated: false };
+    }
+    cursor = page.cursor;
+    const reason: TruncatedReason | undefined =
+      pagesFetched >= maxPages ? "max_pages" : Date.now() >= deadline ? "time_budget" : undefined;
+    if (reason) return { accounts, pagesFetched, truncated: true, truncatedReason: reason };
+  }
+}
+
+function percentOf(amount: bigint, total: bigint): number {
+  return Number((amount * BigInt(10000)) / total) / 100;
+}
+
+/** Balances summed per owner (an owner can have several token accounts). */
+function balancesByOwner(enumeration: TokenAccountsEnumeration): Map<string, bigint> {
+  const byOwner = new Map<string, bigint>();
+  for (const a of enumeration.accounts) {
+    if (!a.owner) continue;
+    const amt = BigInt(a.amount ?? "0");
+    byOwner.set(a.owner, (byOwner.get(a.owner) ?? BigInt(0)) + amt);
+  }
+  return byOwner;
+}
+
+/** Owners with a non-zero balance, largest first. */
+function rankOwners(byOwner: Map<string, bigint>): Array<[string, bigint]> {
+  return [...byOwner.entries()]
+    .filter(([, v]) => v > BigInt(0))
+    .sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0));
+}
+
+/**
+ * Share of `totalSupplyRaw` held by the fetched token accounts (0–1). Near 1 on a truncated
+ * enumeration means only dust accounts are missing and the concentration stats are exact.
+ */
+export function fetchedSupplyShare(enumeration: TokenAccountsEnumeration, totalSupplyRaw: bigint): number {
+  if (totalSupplyRaw <= BigInt(0)) return 0;
+  const fetched = enumeration.accounts.reduce((sum, a) => sum + BigInt(a.amount ?? "0"), BigInt(0));
+  return Math.min(1, percentOf(fetched, totalSupplyRaw) / 100);
+}
+
+/** Addresses of the largest `n` owners (e.g. to look up their labels). */
+export function topOwners(enumeration: TokenAccountsEnumeration, n: number): string[] {
+  return rankOwners(balancesByOwner(enumeration))
+    .slice(0, n)
+    .map(([owner]) => owner);
+}
+
+/**
+ * Largest `n` owners with their share of `totalSupplyRaw` (e.g. HolderStats.totalSupplyRaw).
+ */
+export function rankTopHolders(
+  enumeration: TokenAccountsEnumeration,
+  totalSupplyRaw: bigint,
+  n: number
+): HolderStats["topHolders"] {
+  if (totalSupplyRaw <= BigInt(0)) return [];
+  return rankOwners(balancesByOwner(enumeration))
+    .slice(0, n)
+    .map(([owner, amountRaw]) => ({ owner, amountRaw: amountRaw.toString(), percent: percentOf(amountRaw, totalSupplyRaw) }));
+}
+
+/**
+ * Aggregates token accounts by owner and computes concentration against total supply.
+ * `mintSupplyRaw` is the on-chain supply; without it the sum of fetched balances is used.
+ * `receivedFromCreator` maps wallets that received SOL/tokens from the creator to the first transfer time.
+ * `labels` (known addresses among the largest owners) annotate top holders; curves, pools, burn
+ * addresses, lockers and exchanges are left out of the adjusted concentration.
+ */
+export function computeHolderStats(
+  enumeration: TokenAccountsEnumeration,
+  mintSupplyRaw: bigint | null,
+  creatorAddress: string,
+  receivedFromCreator: Map<string, number>,
+  labels: Map<string, AddressLabel> = new Map()
+): HolderStats | undefined {
+  const byOwner = balancesByOwner(enumeration);
+  const sorted = rankOwners(byOwner);
+  const fetchedSum = sorted.reduce((s, [, v]) => s + v, BigInt(0));
+  const useMintSupply = mintSupplyRaw !== null && mintSupplyRaw > BigInt(0);
+  const totalSupplyRaw = useMintSupply ? mintSupplyRaw : fetchedSum;
+  if (totalSupplyRaw <= BigInt(0) || sorted.length === 0) return undefined;
+
+  const top10 = sorted.slice(0, 10);
+  const top10Sum = top10.reduce((s, [, v]) => s + v, BigInt(0));
+  const creatorBalance = byOwner.get(creatorAddress) ?? BigInt(0);
+  const topHolders = top10.map(([owner, amountRaw]) => ({
+    owner,
+    amountRaw: amountRaw.toString(),
+    percent: percentOf(amountRaw, totalSupplyRaw),
+    label: labels.get(owner),
+    excluded: isNonHolderLabel(labels.get(owner)) || undefined,
+  }));
+
+  // Adjusted: top 10 of the remaining owners against the supply they share
+  const remaining = sorted.filter(([owner]) => !isNonHolderLabel(labels.get(owner)));
+  const excludedSum = fetchedSum - remaining.reduce((s, [, v]) => s + v, BigInt(0));
+  const circulatingRaw = totalSupplyRaw - excludedSum;
+  const adjustedTop10Sum = remaining.slice(0, 10).reduce((s, [, v]) => s + v, BigInt(0));
+
+  const creatorConnectedHolders = topHolders
+    .filter((h) => receivedFromCreator.has(h.owner))
+    .map((h) => ({
+      owner: h.owner,
+      percent: h.percent,
+      firstReceivedAt: receivedFromCreator.get(h.owner),
+    }));
+
+  return {
+    totalSupplyRaw: totalSupplyRaw.toString(),
+    supplySource: useMintSupply ? "mint" : "holders_sum",
+    totalHolders: sorted.length,
+    top10Percent: percentOf(top10Sum, totalSupplyRaw),
+    adjustedTop10Percent: circulatingRaw > BigInt(0) ? percentOf(adjustedTop10Sum, circulatingRaw) : 0,
+    excludedPercent: percentOf(excludedSum, totalSupplyRaw),
+    topHolders,
+    creatorHoldPercent: percentOf(creatorBalance, totalSupplyRaw),
+    creatorConnectedHolders: creatorConnectedHolders.length > 0 ? creatorConnectedHolders : undefined,
+    accountsFetched: enumeration.accounts.length,
+    partial: enumeration.truncated || undefined,
+    partialReason: enumeration.truncatedReason,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Known-address labels (exchange hot wallets, mixers, bridges, known deployers/ruggers, burn
+ * addresses, pool authorities, program-owned vaults and lockers).
+ * Built-ins cover a few well-known addresses; LABELS_FILE (JSON array of
+ * { address, name, category }) adds or overrides entries. Accounts owned by a known launchpad,
+ * AMM or locker program are labelled by their owner program (resolveLabels). Server-only.
+ */
+
+import { readFile, stat } from "fs/promises";
+import path from "path";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { INCINERATOR, LOCKER_PROGRAMS } from "@/lib/liquidity";
+import type { DataProvider } from "@/lib/providers";
+import { isValidSolanaAddress } from "@/lib/utils";
+
+export type LabelCategory =
+  | "cex"
+  | "mixer"
+  | "bridge"
+  | "known_deployer"
+  | "known_rugger"
+  | "burn"
+  | "program_vault"
+  | "pool"
+  | "locker";
+
+export interface AddressLabel {
+  name: string;
+  category: LabelCategory;
+}
+
+const CATEGORIES = new Set<LabelCategory>([
+  "cex",
+  "mixer",
+  "bridge",
+  "known_deployer",
+  "known_rugger",
+  "burn",
+  "program_vault",
+  "pool",
+  "locker",
+]);
+
+/** Exchange hot wallets as labelled on public explorers, burn addresses and AMM pool authorities. */
+const BUILTIN_LABELS: Record<string, AddressLabel> = {
+  [INCINERATOR]: { name: "Incinerator", category: "burn" },
+  "11111111111111111111111111111111": { name: "System Program", category: "burn" },
+  "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1": { name: "Raydium AMM v4 authority", category: "pool" },
+  GpMZbSM2GgvTKHJirzeGfMFoaZ8UR2X7F4v8vHTvxFbL: { name: "Raydium CPMM authority", category: "pool" },
+  "5tzFkiKscXHK5ZXCGbXZxdw7gTjjD1mBwuoFbhUvuAi9": { name: "Binance", category: "cex" },
+  "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM": { name: "Binance", category: "cex" },
+  H8sMJSCQxfKiFTCfDR3DUMLPwcRbM61LGFJ8N4dK3WjS: { name: "Coinbase", category: "cex" },
+  "2AQdpHJ2JpcEgPiATUXjQxA8QmafFegfQwSLWSprPicm": { name: "Coinbase", category: "cex" },
+  "5VCwKtCXgCJ6kit5FybXjvriW3xELsFDhYrPSqtJNmcD": { name: "OKX", category: "cex" },
+  AC5RDfQFmDS1deWZos921JfqscXdByf8BKHs5ACWjtW2: { name: "Bybit", category: "cex" },
+  FWznbcNXWQuHTawe9RxvQ2LdCENssh12dsznf4RiouN5: { name: "Kraken", category: "cex" },
+};
+
+/** Programs whose accounts hold tokens on behalf of a curve, pool or lock rather than a person. */
+const PROGRAM_LABELS: Record<string, AddressLabel> = {
+  ...Object.fromEntries(
+    Object.entries(LOCKER_PROGRAMS).map(([program, name]) => [program, { name, category: "locker" as const }])
+  ),
+  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P": { name: "pump.fun bonding curve", category: "program_vault" },
+  MoonCVVNZFSYkqNXP6bxHLPL6QQJiMagDL3qcqUQTrG: { name: "Moonshot bonding curve", category: "program_vault" },
+  LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj: { name: "Raydium LaunchLab pool", category: "program_vault" },
+  dbcij3LWUppWqq96dh6gJWwBifmcGfLSB5D4DuSMaqN: { name: "Meteora DBC pool", category: "program_vault" },
+  pAMMBay6oceH9fJKBRHGP5D4bD4sWpmSwMn52FMfXEA: { name: "PumpSwap pool", category: "pool" },
+  "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8": { name: "Raydium AMM v4 pool", category: "pool" },
+  CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C: { name: "Raydium CPMM pool", category: "pool" },
+  CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK: { name: "Raydium CLMM pool", category: "pool" },
+  whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc: { name: "Orca Whirlpool", category: "pool" },
+  LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo: { name: "Meteora DLMM pool", category: "pool" },
+  cpamdpZCGKUy5JxQXB4dcpGPiikHawvSWAd6mEn1sGG: { name: "Meteora DAMM v2 pool", category: "pool" },
+};
+
+/** Owner-program lookups at once in resolveLabels. */
+const OWNER_LOOKUP_CONCURRENCY = 4;
+
+interface LoadedLabels {
+  labels: Map<string, AddressLabel>;
+  /** Why LABELS_FILE was ignored. */
+  fileError?: string;
+}
+
+/** Labels for one state of LABELS_FILE (path and modification time). */
+let loaded: { key: string; labels: Promise<LoadedLabels> } | undefined;
+
+/** Entries of LABELS_FILE. Throws with every problem found. */
+async function readLabelsFile(file: string): Promise<Map<string, AddressLabel>> {
+  const map = new Map<string, AddressLabel>();
+  const abs = path.resolve(process.cwd(), file);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(abs, "utf8"));
+  } catch (err) {
+    throw new Error(`Invalid LABELS_FILE ${file}: ${err instanceof Error ? err.message : "unreadable"}`);
+  }
+  if (!Array.isArray(raw)) throw new Error(`Invalid LABELS_FILE ${file}: must be a JSON array`);
+  const errors: string[] = [];
+  raw.forEach((entry: { address?: unknown; name?: unknown; category?: unknown }, i: number) => {
+    if (typeof entry?.address !== "string" || !isValidSolanaAddress(entry.address)) {
+      errors.push(`[${i}].address must be a Solana address`);
+    } else if (typeof entry.name !== "string" || !entry.name) {
+      errors.push(`[${i}].name must be a non-empty string`);
+    } else if (typeof entry.category !== "string" || !CATEGORIES.has(entry.category as LabelCategory)) {
+      errors.push(`[${i}].category must be one of ${[...CATEGORIES].join(", ")}`);
+    } else {
+      map.set(entry.address, { name: entry.name, category: entry.category as LabelCategory });
+    }
+  });
+  if (errors.length > 0) throw new Error(`Invalid LABELS_FILE ${file}: ${errors.join("; ")}`);
+  return map;
+}
+
+/** Built-in labels plus LABELS_FILE; an invalid file is ignored (built-ins only) and its problem kept. */
+async function loadLabels(file: string | undefined): Promise<LoadedLabels> {
+  const map = new Map(Object.entries(BUILTIN_LABELS));
+  if (!file) return { labels: map };
+  try {
+    for (const [address, label] of await readLabelsFile(file)) map.set(address, label);
+    return { labels: map };
+  } catch (err) {
+    return { labels: map, fileError: `${err instanceof Error ? err.message : "Invalid LABELS_FILE"}; using built-in labels only` };
+  }
+}
+
+/** Built-in labels and LABELS_FILE, read again when the file (or LABELS_FILE) changes. */
+async function getLoadedLabels(): Promise<LoadedLabels> {
+  const file = process.env.LABELS_FILE?.trim();
+  let key = "";
+  if (file) {
+    const abs = path.resolve(process.cwd(), file);
+    key = `${abs}@${await stat(abs).then((s) => s.mtimeMs, () => "missing")}`;
+  }
+  if (loaded?.key !== key) loaded = { key, labels: loadLabels(file) };
+  return loaded.labels;
+}
+
+/** All labels (built-in + LABELS_FILE). An edited file applies from the next lookup. */
+export async function getLabels(): Promise<Map<string, AddressLabel>> {
+  return (await getLoadedLabels()).labels;
+}
+
+/** Why LABELS_FILE is being ignored, if it is invalid (results report it as meta.labelsFileError). */
+export async function getLabelsFileError(): Promise<string | undefined> {
+  return (await getLoadedLabels()).fileError;
+}
+
+export async function lookupLabel(address: string): Promise<AddressLabel | undefined> {
+  return (await getLabels()).get(address);
+}
+
+/**
+ * Labels for several addresses: the registry first, then the program that owns the account
+ * (bonding curves, pool vaults, lockers). Addresses whose account cannot be read stay unlabelled.
+ */
+export async function resolveLabels(provider: DataProvider, addresses: string[]): Promise<Map<string, AddressLabel>> {
+  const registry = await getLabels();
+  const resolved = new Map<string, AddressLabel>();
+  const unknown: string[] = [];
+  for (const address of new Set(addresses)) {
+    const label = registry.get(address);
+    if (label) resolved.set(address, label);
+    else unknown.push(address);
+  }
+  const owners = await mapWithConcurrency(unknown, OWNER_LOOKUP_CONCURRENCY, (address) =>
+    provider.getAccountInfo(address).then(
+      (account) => account?.owner,
+      () => undefined
+    )
+  );
+  unknown.forEach((address, i) => {
+    const label = owners[i] !== undefined ? PROGRAM_LABELS[owners[i]!] : undefined;
+    if (label) resolved.set(address, label);
+  });
+  return resolved;
+}
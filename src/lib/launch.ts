@@ -0,0 +1,200 @@
+/**
+ * Launch forensics from the first transactions of a mint: bundles (same-slot buys that tipped Jito,
+ * include the creator or share a funder), plain same-slot buys (busy slots, reported without
+ * penalty) and snipers that bought within seconds of pool creation, each with the share of supply
+ * they took.
+ */
+
+import type { HeliusTransaction } from "@/lib/helius";
+import { envInt } from "@/lib/utils";
+
+/** Jito tip payment accounts; a transfer to one of them marks a bundle. */
+const JITO_TIP_ACCOUNTS = new Set([
+  "96gYZGLnJYVFmbjzopPSU6QiEV5fGqZNyN9nmNhvrZU5",
+  "HFqU5x63VTqvQss8hp11i4wVV8bD44PvwucfZ2bU7gRe",
+  "Cw8CFyM9FkoMi7K7Crf6HNQqf4uEMzpKw6QNghXLvLkY",
+  "ADaUMid9yfUytqMBgopwjb2DTLSokTSzL1zt6iGPaS49",
+  "DfXygSm4jCyNCybVYYK6DwvWqjKee8pbDmJGcLWNDXjh",
+  "ADuUkR4vqLUMWXxW9gh6D6L8pMSawimctcNZ5pGwDcEt",
+  "DttWaMuVvTiduZRnguLF7jNxTgiMBZ1hyAumKUiL2KRL",
+  "3AVi9Tg9Uo68tJfuvoKvqKNWKc5wPdSSdeBnizKZ6jT",
+]);
+
+/** Transaction types that open trading (Helius enhanced types). */
+const POOL_CREATION_TYPES = new Set(["CREATE_POOL", "INITIALIZE_POOL", "ADD_LIQUIDITY"]);
+
+/** Buys this soon after pool creation are sniper buys. */
+const SNIPER_WINDOW_S = 10;
+
+export interface LaunchBuy {
+  wallet: string;
+  signature: string;
+  slot?: number;
+  timestamp: number;
+  /** Seconds after pool creation (0 = same second). */
+  secondsAfterPool: number;
+  /** UI units (decimals applied). */
+  tokenAmount: number;
+  /** Share of supply bought (unknown without the mint supply). */
+  supplyPercent?: number;
+}
+
+export interface LaunchBundle {
+  /** Slot shared by the bundled transactions. */
+  slot: number;
+  wallets: string[];
+  signatures: string[];
+  /** The creator signed one of the transactions (creation or a creator buy). */
+  includesCreator: boolean;
+  /** A transaction in the slot tipped a Jito tip account. */
+  jitoTip: boolean;
+  /** Wallet that first funded two or more of the slot's buyers. */
+  sharedFunder?: string;
+  /** Share of supply bought in the slot. */
+  supplyPercent: number;
+}
+
+export interface LaunchAnalysis {
+  /** Earliest transactions of the mint that were analyzed. */
+  txsAnalyzed: number;
+  /** False when the mint has more transactions than were analyzed. */
+  complete: boolean;
+  /** Pool creation (creation transaction for bonding-curve launches). */
+  poolCreatedAt?: number;
+  poolCreationSignature?: string;
+  /**
+   * Slots with buys from two or more wallets, or the creator's slot with any other buyer, that
+   * tipped Jito, include the creator or share a funder.
+   */
+  bundles: LaunchBundle[];
+  /** Other slots with buys from two or more wallets (no sign of coordination). */
+  sameSlotBuys: LaunchBundle[];
+  /** First buys within SNIPER_WINDOW_S of pool creation (creator excluded). */
+  snipers: LaunchBuy[];
+  /** Supply bought in bundles that include the creator. */
+  creatorBundledPercent: number;
+  /** Supply bought in all bundles. */
+  bundledPercent: number;
+  /** Supply bought in plain same-slot buys. */
+  sameSlotPercent: number;
+  sniperPercent: number;
+}
+
+/** Earliest mint transactions to analyze from env (LAUNCH_TX_LIMIT, default and max 100 = one page). */
+export function getLaunchTxLimit(): number {
+  return Math.min(envInt("LAUNCH_TX_LIMIT", 100), 100);
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Tokens of `mint` received by the fee payer in `tx` (its buy), 0 if none. */
+function boughtAmount(tx: HeliusTransaction, mint: string): number {
+  return (tx.tokenTransfers ?? [])
+    .filter((t) => t.mint === mint && t.toUserAccount === tx.feePayer && t.fromUserAccount !== tx.feePayer)
+    .reduce((sum, t) => sum + (t.tokenAmount ?? 0), 0);
+}
+
+function tipsJito(tx: HeliusTransaction): boolean {
+  return (tx.nativeTransfers ?? []).some((t) => t.toUserAccount !== undefined && JITO_TIP_ACCOUNTS.has(t.toUserAccount));
+}
+
+/** A funder shared by two or more of `wallets`. */
+function findSharedFunder(wallets: string[], funders: Map<string, string>): string | undefined {
+  const seen = new Set<string>();
+  for (const w of wallets) {
+    const funder = funders.get(w);
+    if (funder === undefined) continue;
+    if (seen.has(funder)) return funder;
+    seen.add(funder);
+  }
+  return undefined;
+}
+
+/**
+ * Analyzes the earliest transactions of a mint (oldest first, creation first).
+ * `supplyUi` = total supply in UI units; without it supply shares are 0/unknown.
+ * `funders` = first funder per wallet where known (e.g. from the holder cluster lookups).
+ */
+export function analyzeLaunch(
+  txsAsc: HeliusTransaction[],
+  mint: string,
+  creatorAddress: string,
+  supplyUi: number | null,
+  limit: number,
+  funders: Map<string, string> = new Map()
+): LaunchAnalysis {
+  const percent = (amount: number) => (supplyUi && supplyUi > 0 ? round2((amount / supplyUi) * 100) : undefined);
+  const creation = txsAsc[0];
+  const pool = txsAsc.find((tx) => POOL_CREATION_TYPES.has((tx.type ?? "").toUpperCase())) ?? creation;
+  const poolTime = pool?.timestamp;
+
+  const buys: LaunchBuy[] = [];
+  for (const tx of txsAsc) {
+    const amount = boughtAmount(tx, mint);
+    if (amount <= 0) continue;
+    buys.push({
+      wallet: tx.feePayer,
+      signature: tx.signature,
+      slot: tx.slot,
+      timestamp: tx.timestamp,
+      secondsAfterPool: poolTime !== undefined ? Math.max(0, tx.timestamp - poolTime) : 0,
+      tokenAmount: amount,
+      supplyPercent: percent(amount),
+    });
+  }
+
+  // Same-slot groups (transactions without a slot cannot be grouped)
+  const bySlot = new Map<number, HeliusTransaction[]>();
+  for (const tx of txsAsc) {
+    if (tx.slot === undefined) continue;
+    bySlot.set(tx.slot, [...(bySlot.get(tx.slot) ?? []), tx]);
+  }
+  const bundles: LaunchBundle[] = [];
+  const sameSlotBuys: LaunchBundle[] = [];
+  for (const [slot, txs] of bySlot) {
+    const slotBuys = buys.filter((b) => b.slot === slot);
+    const buyers = new Set(slotBuys.map((b) => b.wallet));
+    const includesCreator = txs.some((tx) => tx.feePayer === creatorAddress);
+    const otherBuyers = [...buyers].filter((w) => w !== creatorAddress);
+    if (buyers.size < 2 && !(includesCreator && otherBuyers.length > 0)) continue;
+    const group: LaunchBundle = {
+      slot,
+      wallets: [...new Set([...(includesCreator ? [creatorAddress] : []), ...buyers])],
+      signatures: txs.map((tx) => tx.signature),
+      includesCreator,
+      jitoTip: txs.some(tipsJito),
+      sharedFunder: findSharedFunder([...buyers], funders),
+      supplyPercent: percent(slotBuys.reduce((s, b) => s + b.tokenAmount, 0)) ?? 0,
+    };
+    // Busy slots alone are normal on a hyped launch; only coordination makes a bundle
+    if (group.includesCreator || group.jitoTip || group.sharedFunder !== undefined) bundles.push(group);
+    else sameSlotBuys.push(group);
+  }
+
+  const firstBuy = new Map<string, LaunchBuy>();
+  for (const b of buys) if (!firstBuy.has(b.wallet)) firstBuy.set(b.wallet, b);
+  const sniperWallets = new Set(
+    [...firstBuy.values()]
+      .filter((b) => b.wallet !== creatorAddress && poolTime !== undefined && b.timestamp - poolTime <= SNIPER_WINDOW_S)
+      .map((b) => b.wallet)
+  );
+  // All buys of a sniper within the window count towards what it took
+  const sniperBuys = buys.filter((b) => sniperWallets.has(b.wallet) && b.secondsAfterPool <= SNIPER_WINDOW_S);
+  const sumPercent = (list: Array<{ supplyPercent?: number }>) => round2(list.reduce((s, x) => s + (x.supplyPercent ?? 0), 0));
+
+  return {
+    txsAnalyzed: txsAsc.length,
+    complete: txsAsc.length < limit,
+    poolCreatedAt: poolTime,
+    poolCreationSignature: pool?.signature,
+    bundles,
+    sameSlotBuys,
+    snipers: [...sniperWallets].map((w) => firstBuy.get(w)!),
+    creatorBundledPercent: sumPercent(bundles.filter((b) => b.includesCreator)),
+    bundledPercent: sumPercent(bundles),
+    sameSlotPercent: sumPercent(sameSlotBuys),
+    sniperPercent: sumPercent(sniperBuys),
+  };
+}
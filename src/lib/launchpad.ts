@@ -0,0 +1,117 @@
+/**
+ * Launchpad-aware creator attribution. On launchpads the creation transaction can be signed by a
+ * relayer or the platform, so its fee payer is not necessarily the deployer. The create
+ * instruction of a known launchpad program names the deployer among its accounts; it is
+ * recognized by its Anchor discriminator (first 8 bytes of the instruction data) and by the mint
+ * sitting at the expected account index.
+ */
+
+import type { HeliusInstruction, HeliusTransaction } from "@/lib/helius";
+import { decodeBase58 } from "@/lib/utils";
+
+export type Launchpad = "pump_fun" | "moonshot" | "raydium_launchlab" | "meteora_dbc";
+
+/**
+ * How `creatorAddress` was determined:
+ *   launchpad_instruction — decoded from the launchpad's create instruction accounts
+ *   fee_payer             — fee payer of the first mint transaction (no launchpad create found)
+ */
+export type CreatorAttributionMethod = "launchpad_instruction" | "fee_payer";
+
+export const LAUNCHPAD_LABELS: Record<Launchpad, string> = {
+  pump_fun: "pump.fun",
+  moonshot: "Moonshot",
+  raydium_launchlab: "Raydium LaunchLab",
+  meteora_dbc: "Meteora DBC",
+};
+
+interface CreateInstructionLayout {
+  /** Hex of sha256("global:<name>")[0..8]. */
+  discriminator: string;
+  mintIndex: number;
+  creatorIndex: number;
+}
+
+const LAUNCHPAD_PROGRAMS: Record<string, { launchpad: Launchpad; creates: CreateInstructionLayout[] }> = {
+  "6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P": {
+    launchpad: "pump_fun",
+    creates: [
+      // create: mint, mint_authority, bonding_curve, associated_bonding_curve, global, mpl_token_metadata, metadata, user, …
+      { discriminator: "181ec828051c0777", mintIndex: 0, creatorIndex: 7 },
+      // create_v2 (Token-2022): mint, mint_authority, bonding_curve, associated_bonding_curve, global, user, …
+      { discriminator: "d6904cec5f8b31b4", mintIndex: 0, creatorIndex: 5 },
+    ],
+  },
+  MoonCVVNZFSYkqNXP6bxHLPL6QQJiMagDL3qcqUQTrG: {
+    launchpad: "moonshot",
+    // token_mint: sender, backend_authority, curve_account, mint, …
+    creates: [{ discriminator: "032ca4b87b0df5b3", mintIndex: 3, creatorIndex: 0 }],
+  },
+  LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj: {
+    launchpad: "raydium_launchlab",
+    // initialize*: payer, creator, global_config, platform_config, authority, pool_state, base_mint, …
+    creates: [
+      { discriminator: "afaf6d1f0d989bed", mintIndex: 6, creatorIndex: 1 },
+      { discriminator: "4399af27da102620", mintIndex: 6, creatorIndex: 1 },
+      { discriminator: "25be7ede2c9aab11", mintIndex: 6, creatorIndex: 1 },
+    ],
+  },
+  dbcij3LWUppWqq96dh6gJWwBifmcGfLSB5D4DuSMaqN: {
+    launchpad: "meteora_dbc",
+    // initialize_virtual_pool_with_*: config, pool_authority, creator, base_mint, …
+    creates: [
+      { discriminator: "8c55d7b06636684f", mintIndex: 3, creatorIndex: 2 },
+      { discriminator: "a976334e916edc9b", mintIndex: 3, creatorIndex: 2 },
+    ],
+  },
+};
+
+export interface LaunchpadCreate {
+  launchpad: Launchpad;
+  mint: string;
+  creator: string;
+}
+
+function discriminatorHex(data: string): string | null {
+  const bytes = decodeBase58(data);
+  if (!bytes || bytes.length < 8) return null;
+  return Array.from(bytes.subarray(0, 8), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function decodeInstruction(ix: HeliusInstruction): LaunchpadCreate | null {
+  const program = LAUNCHPAD_PROGRAMS[ix.programId];
+  if (!program) return null;
+  const discriminator = discriminatorHex(ix.data ?? "");
+  const layout = program.creates.find((c) => c.discriminator === discriminator);
+  const mint = layout && ix.accounts?.[layout.mintIndex];
+  const creator = layout && ix.accounts?.[layout.creatorIndex];
+  return mint && creator ? { launchpad: program.launchpad, mint, creator } : null;
+}
+
+/**
+ * Launchpad create instructions in a transaction (top level and inner, i.e. also when a router
+ * or bundler program invoked the launchpad). `mint` limits the result to that token.
+ */
+export function findLaunchpadCreates(tx: Pick<HeliusTransaction, "instructions">, mint?: string): LaunchpadCreate[] {
+  const found: LaunchpadCreate[] = [];
+  for (const ix of tx.instructions ?? []) {
+    for (const candidate of [ix, ...(ix.innerInstructions ?? [])]) {
+      const create = decodeInstruction(candidate);
+      if (create && (mint === undefined || create.mint === mint)) found.push(create);
+    }
+  }
+  return found;
+}
+
+/**
+ * Creator of `mint` from its creation transaction: the deployer named by a launchpad create
+ * instruction, otherwise the fee payer.
+ */
+export function attributeCreator(
+  creationTx: HeliusTransaction,
+  mint: string
+): { creatorAddress: string; launchpad?: Launchpad; method: CreatorAttributionMethod } {
+  const [create] = findLaunchpadCreates(creationTx, mint);
+  if (create) return { creatorAddress: create.creator, launchpad: create.launchpad, method: "launchpad_instruction" };
+  return { creatorAddress: creationTx.feePayer, method: "fee_payer" };
+}
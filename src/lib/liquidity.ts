@@ -0,0 +1,121 @@
+/**
+ * LP ownership for AMM pools: resolve the LP mint from the pool account, then measure
+ * how much LP is burned, locked in known locker programs, or held by the creator.
+ *
+ * Supported pools (those that issue an LP token):
+ *   Raydium AMM v4 — lpMint at 464, lpReserve (LP issued, u64) at 720
+ *   Raydium CPMM   — lp_mint at 136, lp_supply (u64) at 333 (packed)
+ *   Meteora DAMM v1 — lp_mint at 8 (after Anchor discriminator)
+ */
+
+import { decodeMint } from "@/lib/helius";
+import { fetchAllTokenAccounts } from "@/lib/holders";
+import type { DataProvider } from "@/lib/providers";
+import type { LpAnalysis } from "@/lib/risk-score";
+import { encodeBase58 } from "@/lib/utils";
+
+const RAYDIUM_AMM_V4 = "675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8";
+const RAYDIUM_CPMM = "CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C";
+const METEORA_DAMM_V1 = "Eo7WjKq67rjJQSZxS6z3YkapzY3eMj6Xy8X5EQVn5UaB";
+
+/** SPL burn address: tokens sent here can never move again. */
+export const INCINERATOR = "1nc1nerator11111111111111111111111111111111";
+
+/** Programs whose accounts hold LP under a time lock. Meteora lock escrows live in the DAMM program itself. */
+export const LOCKER_PROGRAMS: Record<string, string> = {
+  strmRqUCoQUgGUan5YhzUZa6KqdzwX5L6FpUxfmKg5m: "Streamflow",
+  LocpQgucEQHbqNABEYvBvwoxCPsSbG91A1QaQhQQqjn: "Jupiter Lock",
+  LockrWmn6K5twhz3y9w1dQERbmgSaRkfnTeTKbpofwE: "Raydium LP lock",
+  [METEORA_DAMM_V1]: "Meteora lock escrow",
+};
+
+/** LP holders below this share are not checked for lockers (one RPC call each). */
+const MIN_CHECKED_SHARE = 0.01;
+
+interface PoolLayout {
+  pool: LpAnalysis["pool"];
+  lpMint: string;
+  /** LP issued as tracked by the pool; burning reduces mint supply but not this. */
+  lpIssuedRaw: bigint | null;
+}
+
+function decodePool(owner: string, data: string): PoolLayout | null {
+  const buf = Buffer.from(data, "base64");
+  if (owner === RAYDIUM_AMM_V4 && buf.length >= 728) {
+    return { pool: "raydium_amm", lpMint: encodeBase58(buf.subarray(464, 496)), lpIssuedRaw: buf.readBigUInt64LE(720) };
+  }
+  if (owner === RAYDIUM_CPMM && buf.length >= 341) {
+    return { pool: "raydium_cpmm", lpMint: encodeBase58(buf.subarray(136, 168)), lpIssuedRaw: buf.readBigUInt64LE(333) };
+  }
+  if (owner === METEORA_DAMM_V1 && buf.length >= 40) {
+    return { pool: "meteora_damm", lpMint: encodeBase58(buf.subarray(8, 40)), lpIssuedRaw: null };
+  }
+  return null;
+}
+
+function percentOf(amount: bigint, total: bigint): number {
+  return total > BigInt(0) ? Number((amount * BigInt(10000)) / total) / 100 : 0;
+}
+
+/**
+ * Analyzes LP ownership for one pool. Null if the pool type has no LP token or is not supported.
+ * `connected` = wallets that received SOL/tokens from the creator.
+ */
+export async function analyzePoolLp(
+  provider: DataProvider,
+  pairAddress: string,
+  creatorAddress: string,
+  connected: Map<string, number>
+): Promise<LpAnalysis | null> {
+  const poolAccount = await provider.getAccountInfo(pairAddress);
+  if (!poolAccount) return null;
+  const layout = decodePool(poolAccount.owner, poolAccount.data);
+  if (!layout) return null;
+  const lpMintAccount = await provider.getAccountInfo(layout.lpMint);
+  const lpMint = lpMintAccount ? decodeMint(lpMintAccount) : null;
+  if (!lpMint) return null;
+
+  // LP burned with an SPL burn disappears from supply; the pool still counts it as issued
+  const supply = lpMint.supply;
+  const issued = layout.lpIssuedRaw !== null && layout.lpIssuedRaw > supply ? layout.lpIssuedRaw : supply;
+  let burned = issued - supply;
+  let locked = BigInt(0);
+  let creatorHeld = BigInt(0);
+  const lockers = new Set<string>();
+
+  const { accounts, truncated } = await fetchAllTokenAccounts(provider, layout.lpMint, { maxPages: 2, timeBudgetMs: 4000 });
+  const byOwner = new Map<string, bigint>();
+  for (const a of accounts) {
+    if (!a.owner) continue;
+    byOwner.set(a.owner, (byOwner.get(a.owner) ?? BigInt(0)) + BigInt(a.amount ?? "0"));
+  }
+  for (const [owner, amount] of byOwner) {
+    if (amount <= BigInt(0)) continue;
+    if (owner === INCINERATOR) {
+      burned += amount;
+    } else if (owner === creatorAddress || connected.has(owner)) {
+      creatorHeld += amount;
+    } else if (issued > BigInt(0) && Number(amount) / Number(issued) >= MIN_CHECKED_SHARE) {
+      const ownerAccount = await provider.getAccountInfo(owner);
+      const locker = ownerAccount ? LOCKER_PROGRAMS[ownerAccount.owner] : undefined;
+      if (locker) {
+        locked += amount;
+        lockers.add(locker);
+      }
+    }
+  }
+
+  const burnedPercent = percentOf(burned, issued);
+  const lockedPercent = percentOf(locked, issued);
+  return {
+    pool: layout.pool,
+    lpMint: layout.lpMint,
+    lpSupplyRaw: supply.toString(),
+    burnedPercent,
+    lockedPercent,
+    creatorHeldPercent: percentOf(creatorHeld, issued),
+    unlockedPercent: Math.max(0, 100 - burnedPercent - lockedPercent),
+    lockers: lockers.size > 0 ? [...lockers] : undefined,
+    holdersPartial: truncated || undefined,
+  };
+}
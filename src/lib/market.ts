@@ -0,0 +1,54 @@
+/**
+ * Market data clients (DexScreener, Birdeye) — only server-side.
+ * Birdeye key comes from env (BIRDEYE_API_KEY); DexScreener needs no key.
+ */
+
+const DEXSCREENER_API = "https://api.dexscreener.com/token-pairs/v1/solana";
+const BIRDEYE_API = "https://public-api.birdeye.so";
+
+/** One pair as returned by DexScreener token-pairs — only the fields we use. */
+export type DexPairRaw = {
+  liquidity?: { usd?: number };
+  txns?: { h24?: { buys?: number; sells?: number } };
+  baseToken?: { address?: string; symbol?: string };
+  quoteToken?: { address?: string; symbol?: string };
+  dexId?: string;
+  pairAddress?: string;
+  /** Base token price in USD and in the quote token (decimal strings). */
+  priceUsd?: string;
+  priceNative?: string;
+};
+
+/** Birdeye token overview — only the fields we use. */
+export interface BirdeyeTokenOverview {
+  uniqueWallet24h?: number;
+}
+
+/**
+ * Fetches all Solana pairs for a token from DexScreener. Empty array when the token has no pairs.
+ */
+export async function getDexPairs(mint: string): Promise<DexPairRaw[]> {
+  const res = await fetch(`${DEXSCREENER_API}/${mint}`, { next: { revalidate: 0 } });
+  if (!res.ok) {
+    throw new Error(`DexScreener error ${res.status}`);
+  }
+  const data = (await res.json()) as DexPairRaw[];
+  return Array.isArray(data) ? data : [];
+}
+
+/**
+ * Fetches Birdeye token overview. Returns null when BIRDEYE_API_KEY is not set.
+ */
+export async function getTokenOverview(mint: string): Promise<BirdeyeTokenOverview | null> {
+  const birdeyeKey = process.env.BIRDEYE_API_KEY?.trim();
+  if (!birdeyeKey) return null;
+  const res = await fetch(
+    `${BIRDEYE_API}/defi/token_overview?address=${encodeURIComponent(mint)}`,
+    { headers: { "X-API-KEY": birdeyeKey }, next: { revalidate: 0 } }
+  );
+  if (!res.ok) {
+    throw new Error(`Birdeye error ${res.status}`);
+  }
+  const j = (await res.json()) as { data?: BirdeyeTokenOverview };
+  return j.data ?? null;
+}
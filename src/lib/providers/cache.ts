@@ -0,0 +1,42 @@
+/**
+ * Response cache in front of a provider, with per-endpoint TTLs (see lib/cache/ttl.ts).
+ * Created per analysis so hit/miss counts can be reported with the result.
+ */
+
+import { ttlFor, type CacheStore } from "@/lib/cache";
+import type { CacheStats, DataProvider } from "./types";
+import { callKey, callProvider, wrapProvider } from "./wrap";
+
+export interface CachingOptions {
+  /** Skip cached entries and fetch fresh data (responses are still written back). */
+  refresh?: boolean;
+}
+
+export function createCachingProvider(
+  inner: DataProvider,
+  store: CacheStore,
+  options: CachingOptions = {}
+): DataProvider {
+  const cacheStats: CacheStats = { backend: store.name, hits: 0, misses: 0, refreshed: Boolean(options.refresh) };
+  const provider = wrapProvider(inner.name, inner.offline, async (method, args) => {
+    const key = `${method}:${callKey(args)}`;
+    if (!options.refresh) {
+      const entry = await store.get(key).catch(() => undefined);
+      if (entry) {
+        cacheStats.hits++;
+        return entry.value;
+      }
+    }
+    cacheStats.misses++;
+    const value = await callProvider(inner, method, args);
+    const ttl = ttlFor(method, args, value);
+    if (ttl > 0) {
+      // A failed cache write must not fail the analysis
+      await store
+        .set(key, { value, expiresAt: Number.isFinite(ttl) ? Date.now() + ttl * 1000 : null })
+        .catch(() => undefined);
+    }
+    return value;
+  }, () => inner.now());
+  return Object.assign(provider, { cacheStats });
+}
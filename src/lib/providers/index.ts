@@ -0,0 +1,49 @@
+/**
+ * Provider selection from env:
+ *   DATA_PROVIDER=live (default) | record | replay
+ *   RECORDINGS_DIR=recordings (relative to the project root)
+ * Response caching is configured separately (CACHE_BACKEND, see lib/cache).
+ */
+
+import path from "path";
+import { getCacheStore } from "@/lib/cache";
+import { createCachingProvider, type CachingOptions } from "./cache";
+import { liveProvider } from "./live";
+import { createRecordingProvider, createReplayProvider } from "./recording";
+import type { DataProvider } from "./types";
+
+export type { CacheStats, DataProvider, DataProviderMethod, TokenAccountsQuery, TransactionQuery } from "./types";
+export type { CachingOptions } from "./cache";
+export { liveProvider } from "./live";
+export { createRecordingProvider, createReplayProvider, MissingRecordingError } from "./recording";
+export { createMemoProvider } from "./memo";
+export { createCachingProvider } from "./cache";
+
+function getRecordingsDir(): string {
+  const dir = process.env.RECORDINGS_DIR?.trim() || "recordings";
+  return path.resolve(process.cwd(), dir);
+}
+
+export function getDataProvider(): DataProvider {
+  const mode = process.env.DATA_PROVIDER?.trim().toLowerCase() || "live";
+  switch (mode) {
+    case "live":
+      return liveProvider;
+    case "record":
+      return createRecordingProvider(liveProvider, getRecordingsDir());
+    case "replay":
+      return createReplayProvider(getRecordingsDir());
+    default:
+      throw new Error(`Unknown DATA_PROVIDER "${mode}" (expected live, record or replay)`);
+  }
+}
+
+/**
+ * Wraps a provider with the response cache (one wrapper per analysis, for hit counts).
+ * Recording and replay bypass the cache so recordings stay complete and replays stay exact.
+ */
+export function withCache(provider: DataProvider, options: CachingOptions = {}): DataProvider {
+  const store = getCacheStore();
+  if (!store || provider.name === "record" || provider.name === "replay") return provider;
+  return createCachingProvider(provider, store, options);
+}
@@ -0,0 +1,25 @@
+/**
+ * Live provider: Helius (RPC + Enhanced Transactions), DexScreener, Birdeye.
+ */
+
+import {
+  getAccountInfo,
+  getAsset,
+  getTokenAccountsByMint,
+  getTransactionsByAddress,
+} from "@/lib/helius";
+import { getDexPairs, getTokenOverview } from "@/lib/market";
+import type { DataProvider } from "./types";
+import { unixNow } from "./wrap";
+
+export const liveProvider: DataProvider = {
+  name: "live",
+  offline: false,
+  now: unixNow,
+  getTransactionsByAddress,
+  getAsset,
+  getTokenAccountsByMint,
+  getAccountInfo,
+  getDexPairs,
+  getTokenOverview,
+};
@@ -0,0 +1,22 @@
+/**
+ * In-flight / per-batch memoization: identical calls made while analyzing several mints
+ * (e.g. the same creator or previous token) hit the upstream once.
+ */
+
+import type { DataProvider } from "./types";
+import { callKey, callProvider, wrapProvider } from "./wrap";
+
+export function createMemoProvider(inner: DataProvider): DataProvider {
+  const calls = new Map<string, Promise<unknown>>();
+  return wrapProvider(inner.name, inner.offline, (method, args) => {
+    const key = `${method}:${callKey(args)}`;
+    let pending = calls.get(key);
+    if (!pending) {
+      pending = callProvider(inner, method, args);
+      // Failed calls are not memoized so a later mint can retry them
+      pending.catch(() => calls.delete(key));
+      calls.set(key, pending);
+    }
+    return pending;
+  }, () => inner.now());
+}
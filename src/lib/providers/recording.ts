@@ -0,0 +1,92 @@
+/**
+ * Record / replay of upstream responses.
+ * Each provider call is stored as one JSON file keyed by method + arguments:
+ *   <dir>/<method>/<sha1(args)>.json
+ * Failed calls are recorded too, so a replay reproduces the same partial analysis.
+ *
+ * A replay measures time-relative values from the recording time (its clock is the earliest
+ * recordedAt of the calls served so far, whatever order parallel calls finish in), and a
+ * paginated loop that stopped on its time budget while recording ends where the recording does
+ * (MissingRecordingError, see lib/history).
+ */
+
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { UpstreamError } from "@/lib/request-executor";
+import type { DataProvider, DataProviderMethod } from "./types";
+import { callKey, callProvider, unixNow, wrapProvider } from "./wrap";
+
+interface Recording {
+  method: DataProviderMethod;
+  args: unknown[];
+  recordedAt: number;
+  response?: unknown;
+  /** Error message when the upstream call failed. */
+  error?: string;
+  /** Set when the failure was an upstream HTTP error, so a replay reports the same status. */
+  upstreamError?: { upstream: string; status: number; retryAfterMs?: number };
+}
+
+/** Thrown by the replay provider for a call that was never recorded. */
+export class MissingRecordingError extends Error {
+  constructor(method: DataProviderMethod, args: unknown[], dir: string) {
+    super(`No recording for ${method}(${JSON.stringify(args)}) in ${dir}`);
+    this.name = "MissingRecordingError";
+  }
+}
+
+function recordingPath(dir: string, method: DataProviderMethod, args: unknown[]): string {
+  return path.join(dir, method, `${callKey(args)}.json`);
+}
+
+/** The recorded failure, as an UpstreamError when it was one. */
+function recordedError(rec: Recording): Error {
+  const upstream = rec.upstreamError;
+  if (!upstream) return new Error(rec.error);
+  return new UpstreamError(rec.error ?? "Upstream error", upstream.upstream, upstream.status, upstream.retryAfterMs);
+}
+
+/**
+ * Wraps a provider and saves every response (or error) to disk.
+ */
+export function createRecordingProvider(inner: DataProvider, dir: string): DataProvider {
+  return wrapProvider("record", inner.offline, async (method, args) => {
+    const file = recordingPath(dir, method, args);
+    const rec: Recording = { method, args, recordedAt: inner.now() };
+    let response: unknown;
+    let failure: unknown;
+    try {
+      response = await callProvider(inner, method, args);
+      rec.response = response;
+    } catch (err) {
+      failure = err;
+      rec.error = err instanceof Error ? err.message : String(err);
+      if (err instanceof UpstreamError) {
+        rec.upstreamError = { upstream: err.upstream, status: err.status, retryAfterMs: err.retryAfterMs };
+      }
+    }
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(rec, null, 2));
+    if (rec.error !== undefined) throw failure;
+    return response;
+  }, () => inner.now());
+}
+
+/**
+ * Serves every call from recordings in `dir`. No network; a call without a recording throws.
+ */
+export function createReplayProvider(dir: string): DataProvider {
+  let recordedAt: number | undefined;
+  return wrapProvider("replay", true, async (method, args) => {
+    const file = recordingPath(dir, method, args);
+    let rec: Recording;
+    try {
+      rec = JSON.parse(await readFile(file, "utf8")) as Recording;
+    } catch {
+      throw new MissingRecordingError(method, args, dir);
+    }
+    recordedAt = Math.min(recordedAt ?? Infinity, rec.recordedAt);
+    if (rec.error !== undefined) throw recordedError(rec);
+    return rec.response ?? null;
+  }, () => recordedAt ?? unixNow());
+}
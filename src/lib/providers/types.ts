@@ -0,0 +1,50 @@
+/**
+ * Chain and market data provider interface.
+ * The analysis pipeline only talks to a provider, so upstreams can be swapped
+ * (live Helius/DexScreener/Birdeye, recording, offline replay).
+ */
+
+import type { AccountInfo, HeliusAsset, HeliusTransaction, TokenAccountsPage } from "@/lib/helius";
+import type { BirdeyeTokenOverview, DexPairRaw } from "@/lib/market";
+
+export interface TransactionQuery {
+  "sort-order"?: "asc" | "desc";
+  limit?: number;
+  "before-signature"?: string;
+}
+
+export interface TokenAccountsQuery {
+  limit?: number;
+  cursor?: string;
+}
+
+/** Response cache counters for one analysis. */
+export interface CacheStats {
+  /** Cache backend ("memory", "memory+file"). */
+  backend: string;
+  hits: number;
+  misses: number;
+  /** True if cached entries were bypassed (forced refresh). */
+  refreshed: boolean;
+}
+
+export interface DataProvider {
+  /** Provider name for logs and result metadata ("live", "record", "replay"). */
+  readonly name: string;
+  /** True if the provider never touches the network (no API keys needed). */
+  readonly offline: boolean;
+  /** Set by the caching provider. */
+  readonly cacheStats?: CacheStats;
+  /** Unix seconds that time-relative values (ages, recent windows) are measured from. */
+  now(): number;
+  getTransactionsByAddress(address: string, options?: TransactionQuery): Promise<HeliusTransaction[]>;
+  getAsset(mint: string): Promise<HeliusAsset | null>;
+  getTokenAccountsByMint(mint: string, options?: TokenAccountsQuery): Promise<TokenAccountsPage>;
+  getAccountInfo(address: string): Promise<AccountInfo | null>;
+  getDexPairs(mint: string): Promise<DexPairRaw[]>;
+  /** Null when market overview is not configured (no Birdeye key). */
+  getTokenOverview(mint: string): Promise<BirdeyeTokenOverview | null>;
+}
+
+/** Provider method names — used as recording keys. */
+export type DataProviderMethod = Exclude<keyof DataProvider, "name" | "offline" | "cacheStats" | "now">;
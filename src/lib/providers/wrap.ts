@@ -0,0 +1,47 @@
+/**
+ * Helpers for providers that wrap every method the same way (record, replay, memo, cache).
+ */
+
+import { createHash } from "crypto";
+import type { DataProvider, DataProviderMethod } from "./types";
+
+export const PROVIDER_METHODS: DataProviderMethod[] = [
+  "getTransactionsByAddress",
+  "getAsset",
+  "getTokenAccountsByMint",
+  "getAccountInfo",
+  "getDexPairs",
+  "getTokenOverview",
+];
+
+/** Stable key for a call: sha1 of the JSON arguments (JSON drops undefined, so optional args share a key). */
+export function callKey(args: unknown[]): string {
+  return createHash("sha1").update(JSON.stringify(args)).digest("hex");
+}
+
+/** Current time in unix seconds (the clock of live providers). */
+export function unixNow(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Builds a provider whose every method goes through `call`.
+ */
+export function wrapProvider(
+  name: string,
+  offline: boolean,
+  call: (method: DataProviderMethod, args: unknown[]) => Promise<unknown>,
+  now: () => number = unixNow
+): DataProvider {
+  const provider = { name, offline, now } as Record<string, unknown>;
+  for (const method of PROVIDER_METHODS) {
+    provider[method] = (...args: unknown[]) => call(method, args);
+  }
+  return provider as unknown as DataProvider;
+}
+
+/** Calls a method on a provider with untyped arguments. */
+export function callProvider(provider: DataProvider, method: DataProviderMethod, args: unknown[]): Promise<unknown> {
+  const fn = provider[method] as (...a: unknown[]) => Promise<unknown>;
+  return fn.apply(provider, args);
+}
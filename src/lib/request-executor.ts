@@ -0,0 +1,196 @@
+/**
+ * Shared request executor for upstream HTTP calls (Helius RPC and Enhanced API).
+ * Retries 429/5xx and network errors with exponential backoff and full jitter, honours
+ * Retry-After, spaces requests per API key (requests/second budget) and caps requests in flight.
+ * Server-only.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { envInt } from "@/lib/utils";
+
+export interface RequestPolicy {
+  maxRetries: number;
+  /** First backoff step; doubles per attempt. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Requests in flight across all keys. */
+  maxConcurrency: number;
+  /** Budget per key. */
+  requestsPerSecond: number;
+  /** Per-attempt timeout. */
+  timeoutMs: number;
+}
+
+/** Upstream counters for one analysis. */
+export interface RequestStats {
+  requests: number;
+  retries: number;
+  /** Time spent waiting for the per-key budget or a concurrency slot, summed over requests. */
+  throttledMs: number;
+  /** Time spent sleeping before retries (backoff / Retry-After). */
+  backoffMs: number;
+}
+
+/** Upstream failure after retries (or a non-retryable status), with the upstream HTTP status. */
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly upstream: string,
+    readonly status: number,
+    /** From Retry-After on the last response, if any. */
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+export interface RequestExecutor {
+  /** `key` selects the request budget (e.g. the API key); it is never sent anywhere. */
+  execute(key: string, url: string, init?: RequestInit): Promise<Response>;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+const statsStorage = new AsyncLocalStorage<RequestStats>();
+
+export function emptyRequestStats(): RequestStats {
+  return { requests: 0, retries: 0, throttledMs: 0, backoffMs: 0 };
+}
+
+/**
+ * Runs `fn` with every upstream request it makes (directly or via awaited calls) counted in `stats`.
+ */
+export function withRequestStats<T>(stats: RequestStats, fn: () => Promise<T>): Promise<T> {
+  return statsStorage.run(stats, fn);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Retry-After as seconds or an HTTP date. Undefined if absent or unparsable. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Full jitter: uniform in [0, min(max, base * 2^attempt)]. */
+function backoffDelay(policy: RequestPolicy, attempt: number): number {
+  return Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+}
+
+export function createRequestExecutor(upstream: string, policy: RequestPolicy): RequestExecutor {
+  // Per key: earliest time the next request may start
+  const nextSlot = new Map<string, number>();
+  const interval = 1000 / Math.max(policy.requestsPerSecond, 0.001);
+  let inFlight = 0;
+  const waiting: Array<() => void> = [];
+
+  /** Reserves a start time in the key's budget (bursts up to one second's worth). Returns the wait. */
+  const reserve = (key: string): number => {
+    const now = Date.now();
+    const at = Math.max(nextSlot.get(key) ?? 0, now - 1000 + interval);
+    nextSlot.set(key, at + interval);
+    return Math.max(0, at - now);
+  };
+
+  /** Pushes the key's budget back, e.g. after a 429, so queued requests wait too. */
+  const pause = (key: string, ms: number) => {
+    nextSlot.set(key, Math.max(nextSlot.get(key) ?? 0, Date.now() + ms));
+  };
+
+  const acquire = async () => {
+    if (inFlight < policy.maxConcurrency) {
+      inFlight++;
+      return;
+    }
+    // Slot is handed over by release(), so inFlight stays the same
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else inFlight--;
+  };
+
+  const attempt = async (key: string, url: string, init: RequestInit | undefined, stats?: RequestStats) => {
+    const queuedAt = Date.now();
+    await acquire();
+    try {
+      const wait = reserve(key);
+      if (wait > 0) await sleep(wait);
+      if (stats) {
+        stats.throttledMs += Date.now() - queuedAt;
+        stats.requests++;
+      }
+      return await fetch(url, { ...init, signal: AbortSignal.timeout(policy.timeoutMs) });
+    } finally {
+      release();
+    }
+  };
+
+  return {
+    async execute(key, url, init) {
+      const stats = statsStorage.getStore();
+      for (let i = 0; ; i++) {
+        let res: Response | undefined;
+        let failure: unknown;
+        try {
+          res = await attempt(key, url, init, stats);
+        } catch (err) {
+          // Network error or per-attempt timeout
+          failure = err;
+        }
+        if (res && !RETRYABLE_STATUSES.has(res.status)) return res;
+
+        const retryAfterMs = res ? parseRetryAfter(res.headers.get("retry-after")) : undefined;
+        if (res?.status === 429) pause(key, retryAfterMs ?? backoffDelay(policy, i));
+        // Retry-After longer than we are willing to wait: fail now and pass it on to the client
+        if (i >= policy.maxRetries || (retryAfterMs ?? 0) > policy.maxDelayMs) {
+          if (res) {
+            throw new UpstreamError(
+              res.status === 429
+                ? `${upstream} rate limit exceeded (429) after ${i} retries`
+                : `${upstream} unavailable (${res.status}) after ${i} retries`,
+              upstream,
+              res.status,
+              retryAfterMs
+            );
+          }
+          const reason = failure instanceof Error ? failure.message : "network error";
+          throw new UpstreamError(`${upstream} request failed after ${i} retries: ${reason}`, upstream, 502);
+        }
+
+        // Drain the body so the connection can be reused
+        await res?.body?.cancel().catch(() => undefined);
+        const delay = Math.max(retryAfterMs ?? 0, backoffDelay(policy, i));
+        if (stats) {
+          stats.retries++;
+          stats.backoffMs += Math.round(delay);
+        }
+        await sleep(delay);
+      }
+    },
+  };
+}
+
+/**
+ * Policy for Helius from env: HELIUS_MAX_RETRIES (3), HELIUS_RETRY_BASE_MS (500),
+ * HELIUS_RETRY_MAX_MS (8000), HELIUS_MAX_CONCURRENCY (4), HELIUS_RPS (10, per API key),
+ * HELIUS_TIMEOUT_MS (15000).
+ */
+export function getHeliusPolicy(): RequestPolicy {
+  return {
+    maxRetries: envInt("HELIUS_MAX_RETRIES", 3),
+    baseDelayMs: envInt("HELIUS_RETRY_BASE_MS", 500),
+    maxDelayMs: envInt("HELIUS_RETRY_MAX_MS", 8000),
+    maxConcurrency: Math.max(1, envInt("HELIUS_MAX_CONCURRENCY", 4)),
+    requestsPerSecond: Math.max(1, envInt("HELIUS_RPS", 10)),
+    timeoutMs: envInt("HELIUS_TIMEOUT_MS", 15000),
+  };
+}
@@ -4,16 +4,64 @@
  * Higher score = safer token.
  */
 
+import { evaluateRuleset, getDefaultRuleset, rulesetVersion, type Ruleset, type ScoringContext } from "@/lib/scoring";
+import type { BondingCurveState } from "@/lib/bonding-curve";
+import type { HolderClusterAnalysis } from "@/lib/clusters";
+import type { FundingPath } from "@/lib/funding";
+import type { HolderGrowthAnalysis } from "@/lib/holder-growth";
+import type { AddressLabel } from "@/lib/labels";
+import type { CreatorTransferKind, HeliusTransaction } from "@/lib/helius";
+import type { LaunchAnalysis } from "@/lib/launch";
+import { findLaunchpadCreates, type CreatorAttributionMethod, type Launchpad } from "@/lib/launchpad";
+import type { MintExtension } from "@/lib/token-extensions";
+import type { CacheStats } from "@/lib/providers";
+import type { RequestStats } from "@/lib/request-executor";
+import type { TimelineEvent } from "@/lib/timeline";
+import type { PreviousTokenStatus } from "@/lib/track-record";
+import type { WashTradingAnalysis } from "@/lib/wash-trading";
+
 export interface CreatorAnalysis {
   creatorAddress: string;
+  /** Launchpad whose create instruction made the token. */
+  launchpad?: Launchpad;
+  /** How creatorAddress was determined (launchpad create instruction or fee payer). */
+  creatorAttributionMethod?: CreatorAttributionMethod;
+  /** Fee payer of the creation transaction when it is not the creator (relayer/platform). */
+  creationFeePayer?: string;
   creatorFirstTxTimestamp: number | null;
   accountAgeDays: number | null;
+  /** Creator transactions fetched (full history unless txHistoryTruncated). */
   totalTxCount: number;
+  /** True if the page/time budget ran out — totalTxCount and derived counts are lower bounds. */
+  txHistoryTruncated?: boolean;
+  txHistoryTruncatedReason?: "max_pages" | "time_budget";
   estimatedTokensCreated: number;
   tokenName?: string;
   tokenSymbol?: string;
   /** True if mint authority is still set — creator can mint unlimited tokens (high risk). */
   canMintUnlimited?: boolean;
+  /** Mint authority pubkey from the mint account (null = revoked, undefined = mint not decoded). */
+  mintAuthority?: string | null;
+  /** Freeze authority pubkey (null = revoked). If set, it can freeze any holder's tokens (honeypot risk). */
+  freezeAuthority?: string | null;
+  /** True if freeze authority is still set. */
+  canFreeze?: boolean;
+  /** On-chain supply in raw units (string, u64). */
+  mintSupplyRaw?: string;
+  mintDecimals?: number;
+  /** Token program that owns the mint. */
+  tokenProgram?: "spl-token" | "token-2022" | "unknown";
+  /** Track record over the earlier tokens that were checked (see creatorPreviousTokens). */
+  previousTokensChecked?: number;
+  /** Checked tokens that got a pool, liquidity or trading. */
+  previousTokensLaunched?: number;
+  previousTokensAlive?: number;
+  previousTokensRugged?: number;
+  previousTokensAbandoned?: number;
+  /** Launched tokens that were rugged or abandoned and stopped trading within a week of creation (create → pump → abandon). */
+  pumpAndAbandonCount?: number;
+  /** Rugged share of launched tokens (0–100); undefined when none launched. */
+  rugRatePercent?: number;
 }
 
 export interface RiskFactor {
@@ -30,31 +78,71 @@ export interface CreatorConnectedHolder {
   percent: number;
   /** Unix timestamp when they first received from creator (if known). */
   firstReceivedAt?: number;
+  /** What the creator sent them. */
+  via?: CreatorTransferKind[];
 }
 
 /** Top holders and concentration stats (share of supply). */
 export interface HolderStats {
+  /** Total supply in raw units — on-chain mint supply when available. */
   totalSupplyRaw: string;
+  /** "mint" = read from mint account; "holders_sum" = sum of fetched balances (fallback). */
+  supplySource?: "mint" | "holders_sum";
+  /** Wallets with a non-zero balance among fetched accounts (lower bound when partial). */
   totalHolders: number;
-  /** Percentage of supply held by top 10 wallets (0–100). */
+  /** Percentage of supply held by top 10 wallets (0–100), labelled accounts included. */
   top10Percent: number;
-  /** Top N holders with their share (percentage). */
-  topHolders: Array<{ owner: string; amountRaw: string; percent: number }>;
+  /**
+   * Top 10 share after leaving out labelled non-holders (curves, pools, burn, lockers, exchanges),
+   * against the supply they do not hold.
+   */
+  adjustedTop10Percent?: number;
+  /** Share of supply held by those labelled non-holders. */
+  excludedPercent?: number;
+  /** Top N holders with their share (percentage) and known label; `excluded` = not in the adjusted share. */
+  topHolders: Array<{ owner: string; amountRaw: string; percent: number; label?: AddressLabel; excluded?: boolean }>;
   /** Creator's share of supply (0–100). If 0 or very low, creator likely sold/dumped. */
   creatorHoldPercent?: number;
   /** Top holders that received SOL or tokens FROM the creator (sybil/insider risk). */
   creatorConnectedHolders?: CreatorConnectedHolder[];
+  /** Token accounts fetched during enumeration. */
+  accountsFetched?: number;
+  /** True if enumeration stopped early (budget) — counts and top holders may be incomplete. */
+  partial?: boolean;
+  partialReason?: "max_pages" | "time_budget";
 }
 
 /** Emission: fixed supply vs creator can mint more. */
 export type EmissionStatus = "fixed" | "unlimited";
 
+/** Who owns a pool's LP tokens (share of all LP ever issued, 0–100). */
+export interface LpAnalysis {
+  pool: "raydium_amm" | "raydium_cpmm" | "meteora_damm";
+  lpMint: string;
+  /** Current LP mint supply (raw units). */
+  lpSupplyRaw: string;
+  /** Burned (SPL burn or sent to the incinerator) — liquidity can never be withdrawn. */
+  burnedPercent: number;
+  /** Held by known locker programs (time-locked). */
+  lockedPercent: number;
+  /** Held by the creator or wallets it funded — can pull liquidity (rug). */
+  creatorHeldPercent: number;
+  /** Neither burned nor locked. */
+  unlockedPercent: number;
+  /** Locker names found (e.g. "Streamflow"). */
+  lockers?: string[];
+  /** True if LP holder enumeration stopped early. */
+  holdersPartial?: boolean;
+}
+
 /** One DEX pair for a token (e.g. TOKEN/SOL, TOKEN/USDC). */
 export interface TokenPairInfo {
   quoteSymbol: string;
   liquidityUsd: number;
   dexId?: string;
   pairAddress?: string;
+  /** LP burn/lock status (supported AMM pools only). */
+  lp?: LpAnalysis;
 }
 
 /** Liquidity and trading activity (from DEX when available). */
@@ -69,14 +157,31 @@ export interface TokenMarketStats {
   sells24h?: number;
   /** Unique wallets that traded in 24h (Birdeye or other when available). */
   uniqueTraders24h?: number;
-  /** % of holders that first received token in last 24h (when available). */
+  /** % of holders that first received token in last 24h (sampled first receipts, see RiskResult.holderGrowth). */
   freshHolders1dPercent?: number;
-  /** % of holders that first received token in last 7d (when available). */
+  /** % of holders that first received token in last 7d (sampled first receipts). */
   freshHolders7dPercent?: number;
   /** Migration stage: bonding curve (e.g. pump.fun) vs migrated to AMM (e.g. Raydium). */
   migrationStatus?: "bonding_curve" | "migrated" | "amm_only" | "unknown";
   /** Human-readable migration label for UI. */
   migrationLabel?: string;
+  /** Decoded pump.fun bonding curve (pump.fun tokens only). */
+  bondingCurve?: BondingCurveState;
+}
+
+/** Metaplex metadata: can name/symbol/image still change, and who controls it. */
+export interface TokenMetadataInfo {
+  /** True if metadata can still be updated (rename, image swap). */
+  mutable?: boolean;
+  updateAuthority?: string | null;
+  /** Off-chain metadata JSON URI. */
+  uri?: string;
+  /** Metaplex token standard (e.g. "Fungible", "FungibleAsset"). */
+  tokenStandard?: string;
+  /** Update authority is the creator wallet. */
+  updateAuthorityIsCreator?: boolean;
+  /** Update authority received SOL/tokens from the creator. */
+  updateAuthorityConnected?: boolean;
 }
 
 /** Another token created by the same creator — current liquidity and pairs (swapability). */
@@ -86,12 +191,108 @@ export interface CreatorPreviousToken {
   name?: string;
   liquidityUsd: number;
   pairs: TokenPairInfo[];
+  status?: PreviousTokenStatus;
+  /** Unix seconds: the creator's first and the token's latest known transaction. */
+  createdAt?: number;
+  lastActivityAt?: number;
+  lifetimeDays?: number;
+  /** Estimated from the SOL the creator added to pools (both sides, today's SOL price). */
+  peakLiquidityUsd?: number;
+  /** Current liquidity as a share of the peak (0–100). */
+  liquidityRetainedPercent?: number;
+  creatorRemovedLiquidity?: boolean;
+  creatorSold?: boolean;
+  /** Rugged or abandoned, and stopped trading within a week of creation. */
+  pumpAndAbandon?: boolean;
+}
+
+/** Upstream data sections that feed the score. */
+export type DataSectionName =
+  | "metadata"
+  | "mintAccount"
+  | "creatorHistory"
+  | "holders"
+  | "market"
+  | "marketOverview"
+  | "liquidityPools"
+  | "fundingTrace"
+  | "holderClusters"
+  | "launch"
+  | "washTrading"
+  | "bondingCurve"
+  | "holderGrowth";
+
+/**
+ * ok = complete; truncated = partial (budget or some sub-requests failed);
+ * failed = upstream error, data missing; skipped = not collected (not configured / not applicable).
+ */
+export interface DataSectionStatus {
+  status: "ok" | "failed" | "skipped" | "truncated";
+  reason?: string;
+  /** Truncated sections: share of what the score needs that was collected (0–1), when measurable. */
+  completeness?: number;
+}
+
+export type DataSections = Partial<Record<DataSectionName, DataSectionStatus>>;
+
+/** How much each section matters for the score (relative). */
+const SECTION_WEIGHTS: Record<DataSectionName, number> = {
+  metadata: 0.05,
+  mintAccount: 0.2,
+  creatorHistory: 0.25,
+  holders: 0.25,
+  market: 0.15,
+  marketOverview: 0.02,
+  liquidityPools: 0.08,
+  fundingTrace: 0.05,
+  holderClusters: 0.05,
+  launch: 0.05,
+  washTrading: 0.05,
+  bondingCurve: 0.03,
+  holderGrowth: 0.03,
+};
+
+/**
+ * Data completeness 0–1: weighted share of sections that are ok. Truncated sections count by their
+ * completeness (half when it is not measurable). Skipped sections were deliberately not collected
+ * and are left out.
+ */
+export function computeConfidence(sections: DataSections): number {
+  let total = 0;
+  let got = 0;
+  for (const [name, s] of Object.entries(sections) as Array<[DataSectionName, DataSectionStatus]>) {
+    if (s.status === "skipped") continue;
+    const w = SECTION_WEIGHTS[name];
+    total += w;
+    const truncated = Math.min(Math.max(s.completeness ?? 0.5, 0), 1);
+    got += s.status === "ok" ? w : s.status === "truncated" ? w * truncated : 0;
+  }
+  return total > 0 ? Math.round((got / total) * 100) / 100 : 0;
+}
+
+export interface AnalysisMeta {
+  /** Data provider ("live", "record", "replay"). */
+  provider: string;
+  /** Response cache hits/misses; absent when caching is off. */
+  cache?: CacheStats;
+  /** Upstream (Helius) requests made, retries and time spent throttled or backing off. */
+  requests?: RequestStats;
+  /** Id of the persisted snapshot of this result (see /api/history). */
+  snapshotId?: string;
+  /** Why LABELS_FILE was ignored (invalid file; built-in labels were used). */
+  labelsFileError?: string;
 }
 
 export interface RiskResult {
   score: number; // 0–100
   severity: "high" | "medium" | "low";
   factors: RiskFactor[];
+  /** Ruleset that produced the score ("name@version"). */
+  rulesetVersion: string;
+  /** Data completeness 0–1. Below 1 = score based on partial data. */
+  confidence: number;
+  /** Per-section upstream status (why data is missing or partial). */
+  dataSections: DataSections;
   creator: CreatorAnalysis;
   mint: string;
   holderStats?: HolderStats;
@@ -102,6 +303,24 @@ export interface RiskResult {
   tokenMarket?: TokenMarketStats;
   /** Other tokens created by this wallet — liquidity and pairs (swapability) for each. */
   creatorPreviousTokens?: CreatorPreviousToken[];
+  /** Token-2022 mint extensions (empty/absent for plain SPL mints). */
+  mintExtensions?: MintExtension[];
+  /** Metaplex metadata mutability and update authority. */
+  tokenMetadata?: TokenMetadataInfo;
+  /** Where the creator's SOL came from, traced back hop by hop. */
+  fundingPath?: FundingPath;
+  /** Groups of top holders linked by how they were funded (likely one entity). */
+  holderClusters?: HolderClusterAnalysis;
+  /** Bundles and snipers in the first transactions after creation. */
+  launchAnalysis?: LaunchAnalysis;
+  /** Self-trades, round trips and net-zero traders in the last 24h; discounts DEX activity. */
+  washTrading?: WashTradingAnalysis;
+  /** Notable events (creation, pools, sells, liquidity, cluster funding), oldest first. */
+  timeline?: TimelineEvent[];
+  /** Holder first-receipt times: fresh-holder shares and the arrivals histogram. */
+  holderGrowth?: HolderGrowthAnalysis;
+  /** How the result was produced (provider, response cache use). */
+  meta?: AnalysisMeta;
 }
 
 const TOKEN_CREATION_TYPES = new Set([
@@ -116,7 +335,8 @@ const TOKEN_CREATION_TYPES = new Set([
   "COMPRESSED_NFT_MINT",
 ]);
 
-function txLooksLikeTokenCreation(tx: { type?: string }): boolean {
+function txLooksLikeTokenCreation(tx: Pick<HeliusTransaction, "type" | "instructions">): boolean {
+  if (findLaunchpadCreates(tx).length > 0) return true;
   const t = (tx.type ?? "").toUpperCase();
   for (const prefix of TOKEN_CREATION_TYPES) {
     if (t === prefix || t.startsWith(prefix + "_")) return true;
@@ -127,299 +347,154 @@ function txLooksLikeTokenCreation(tx: { type?: string }): boolean {
   return false;
 }
 
-export function computeRiskScore(
-  mint: string,
-  creatorAnalysis: CreatorAnalysis,
-  creatorTxs: Array<{ type?: string; timestamp?: number }>,
-  holderStats?: HolderStats,
-  tokenMarket?: TokenMarketStats
-): RiskResult {
-  const factors: RiskFactor[] = [];
-  let score = 50; // base
-  let resultHolderStats: HolderStats | undefined = holderStats;
-  const emissionStatus: EmissionStatus = creatorAnalysis.canMintUnlimited === true ? "unlimited" : "fixed";
-  const creatorSold = holderStats?.creatorHoldPercent !== undefined && holderStats.creatorHoldPercent < 1;
-
-  const createdCount = creatorTxs.filter(txLooksLikeTokenCreation).length;
-  creatorAnalysis.estimatedTokensCreated = Math.max(createdCount, 1);
-
-  // 1. Emission: unlimited vs fixed supply (explicit factor)
-  if (creatorAnalysis.canMintUnlimited === true) {
-    score -= 20;
-    factors.push({
-      id: "unlimited_mint",
-      label: "Unlimited supply (creator can mint more)",
-      severity: "critical",
-      description:
-        "Mint authority is not revoked. The deployer can mint more tokens at any time and crash the price — typical scam or high-risk sign.",
-      impact: -20,
-    });
-  } else if (creatorAnalysis.canMintUnlimited === false) {
-    score += 10;
-    factors.push({
-      id: "fixed_supply",
-      label: "Fixed supply (mint authority revoked)",
-      severity: "positive",
-      description:
-        "Creator revoked mint authority. No new tokens can be minted — supply is fixed.",
-      impact: 10,
-    });
-  }
-
-  // 2. Creator sold? (creator's current share of supply)
-  if (holderStats?.creatorHoldPercent !== undefined) {
-    if (holderStats.creatorHoldPercent < 1) {
-      score -= 18;
-      factors.push({
-        id: "creator_sold",
-        label: "Creator sold (or dumped) tokens",
-        severity: "critical",
-        description: `Creator's share of supply is now ${holderStats.creatorHoldPercent.toFixed(2)}%. Creator selling is a strong red flag (dump).`,
-        impact: -18,
-      });
-    } else if (holderStats.creatorHoldPercent >= 10) {
-      score += 8;
-      factors.push({
-        id: "creator_holds",
-        label: "Creator still holds a share",
-        severity: "positive",
-        description: `Creator holds ${holderStats.creatorHoldPercent.toFixed(1)}% of supply — did not dump after launch.`,
-        impact: 8,
-      });
-    }
-  }
-
-  // Serial creator: many tokens created
-  if (createdCount >= 10) {
-    score -= 25;
-    factors.push({
-      id: "serial_creator",
-      label: "Many tokens from same creator",
-      severity: "critical",
-      description: `Creator has launched many tokens (est. ${createdCount}+). Often a sign of serial scam.`,
-      impact: -25,
-    });
-  } else if (createdCount >= 5) {
-    score -= 15;
-    factors.push({
-      id: "multiple_tokens",
-      label: "Multiple tokens from creator",
-      severity: "warning",
-      description: `Creator has launched several tokens (est. ${createdCount}). Check history.`,
-      impact: -15,
-    });
-  } else if (createdCount <= 1) {
-    score += 10;
-    factors.push({
-      id: "first_or_few",
-      label: "First or one of few tokens",
-      severity: "positive",
-      description: "Creator has few token launches — fewer signs of serial scam.",
-      impact: 10,
-    });
-  }
-
-  // Account age
-  const ageDays = creatorAnalysis.accountAgeDays;
-  if (ageDays !== null) {
-    if (ageDays < 1) {
-      score -= 20;
-      factors.push({
-        id: "brand_new_account",
-        label: "Brand new wallet",
-        severity: "critical",
-        description: "Creator wallet is less than 1 day old. Typical for scams.",
-        impact: -20,
-      });
-    } else if (ageDays < 7) {
-      score -= 10;
-      factors.push({
-        id: "new_account",
-        label: "New wallet",
-        severity: "warning",
-        description: `Creator wallet age: ~${Math.round(ageDays)} days. Proceed with caution.`,
-        impact: -10,
-      });
-    } else if (ageDays >= 90) {
-      score += 10;
-      factors.push({
-        id: "established_account",
-        label: "Established wallet",
-        severity: "positive",
-        description: `Creator wallet has been active for ${Math.round(ageDays)}+ days. Often a sign of legitimacy.`,
-        impact: 10,
-      });
-    }
-  }
-
-  // Very high activity (possible bot)
-  const totalTx = creatorAnalysis.totalTxCount;
-  if (totalTx > 500) {
-    score -= 5;
-    factors.push({
-      id: "very_high_activity",
-      label: "Very high activity",
-      severity: "warning",
-      description: `Very high tx count (${totalTx}+). May indicate automated activity.`,
-      impact: -5,
-    });
-  }
-
-  // Very few holders (strong red flag — scam or illiquid)
-  if (holderStats && holderStats.totalHolders > 0) {
-    const n = holderStats.totalHolders;
-    if (n <= 2) {
-      score -= 18;
-      factors.push({
-        id: "very_few_holders",
-        label: "Very few holders",
-        severity: "critical",
-        description: `Only ${n} holder(s). Typical sign of scam, illiquid token or coordinated wallets.`,
-        impact: -18,
-      });
-    } else if (n <= 5) {
-      score -= 10;
-      factors.push({
-        id: "few_holders",
-        label: "Few holders",
-        severity: "warning",
-        description: `Only ${n} holders. High concentration and manipulation risk.`,
-        impact: -10,
-      });
-    } else if (n <= 15) {
-      score -= 4;
-      factors.push({
-        id: "low_holder_count",
-        label: "Low holder count",
-        severity: "warning",
-        description: `Only ${n} holders. Moderate risk.`,
-        impact: -4,
-      });
-    }
-  }
-
-  // Holder concentration: top 10 hold too much
-  if (holderStats && holderStats.top10Percent >= 0) {
-    if (holderStats.top10Percent >= 80) {
-      score -= 15;
-      factors.push({
-        id: "extreme_concentration",
-        label: "Extreme top-holder concentration",
-        severity: "critical",
-        description: `Top 10 wallets hold ${holderStats.top10Percent.toFixed(1)}% of supply. High dump and manipulation risk.`,
-        impact: -15,
-      });
-    } else if (holderStats.top10Percent >= 50) {
-      score -= 8;
-      factors.push({
-        id: "high_concentration",
-        label: "High top-holder concentration",
-        severity: "warning",
-        description: `Top 10 wallets hold ${holderStats.top10Percent.toFixed(1)}% of supply. Dump risk if whales sell.`,
-        impact: -8,
-      });
-    } else if (holderStats.top10Percent <= 30 && holderStats.totalHolders >= 100) {
-      score += 5;
-      factors.push({
-        id: "distributed_holders",
-        label: "Distributed ownership",
-        severity: "positive",
-        description: `Top 10 hold ${holderStats.top10Percent.toFixed(1)}% — moderate concentration, many holders (${holderStats.totalHolders}+).`,
-        impact: 5,
-      });
-    }
-  }
+/** Everything the ruleset can score. */
+export interface ScoringInputs {
+  mint: string;
+  creator: CreatorAnalysis;
+  creatorTxs: Array<Pick<HeliusTransaction, "type" | "timestamp" | "instructions">>;
+  holderStats?: HolderStats;
+  tokenMarket?: TokenMarketStats;
+  mintExtensions?: MintExtension[];
+  tokenMetadata?: TokenMetadataInfo;
+  fundingPath?: FundingPath;
+  holderClusters?: HolderClusterAnalysis;
+  launchAnalysis?: LaunchAnalysis;
+  washTrading?: WashTradingAnalysis;
+  dataSections?: DataSections;
+  /** Unix seconds ages are measured from (default: the current time). */
+  now?: number;
+}
 
-  // Connection: top holders that received from creator (sybil / coordinated distribution)
+/**
+ * Builds the values rules can reference: creator, holders, market, metadata, funding, clusters, launch, wash, derived
+ * (computed helpers such as createdCount) and the collections for `each` groups.
+ */
+function buildScoringContext(inputs: ScoringInputs, createdCount: number): {
+  ctx: ScoringContext;
+  collections: Record<string, unknown[]>;
+} {
+  const { creator, holderStats, tokenMarket } = inputs;
   const connected = holderStats?.creatorConnectedHolders ?? [];
-  if (connected.length > 0) {
-    const totalTop10ConnectedPercent = connected.reduce((s, h) => s + h.percent, 0);
-    if (connected.length >= 3 || totalTop10ConnectedPercent >= 20) {
-      score -= 14;
-      factors.push({
-        id: "creator_connected_holders",
-        label: "Top holders linked to creator",
-        severity: "critical",
-        description: `${connected.length} of top 10 received SOL or tokens from the creator. Possible sybil or coordination: creator distributed to own wallets.`,
-        impact: -14,
-      });
-    } else {
-      score -= 6;
-      factors.push({
-        id: "creator_connected_holders",
-        label: "Some top holders linked to creator",
-        severity: "warning",
-        description: `${connected.length} of top 10 received transfers from the creator. Check for coordination.`,
-        impact: -6,
-      });
-    }
-  }
+  const hasFresh =
+    tokenMarket?.freshHolders1dPercent !== undefined || tokenMarket?.freshHolders7dPercent !== undefined;
 
-  // 3. Liquidity (LP volume in USD)
-  if (tokenMarket?.liquidityUsd !== undefined && tokenMarket.liquidityUsd >= 0) {
-    if (tokenMarket.liquidityUsd < 2000) {
-      score -= 12;
-      factors.push({
-        id: "low_liquidity",
-        label: "Very low liquidity",
-        severity: "critical",
-        description: `Pool liquidity: $${tokenMarket.liquidityUsd.toLocaleString()} — high rug / liquidity pull risk.`,
-        impact: -12,
-      });
-    } else if (tokenMarket.liquidityUsd < 10000) {
-      score -= 5;
-      factors.push({
-        id: "moderate_liquidity",
-        label: "Low liquidity",
-        severity: "warning",
-        description: `Pool liquidity: $${tokenMarket.liquidityUsd.toLocaleString()} — caution on large trades.`,
-        impact: -5,
-      });
-    } else if (tokenMarket.liquidityUsd >= 50000) {
-      score += 5;
-      factors.push({
-        id: "good_liquidity",
-        label: "Decent liquidity",
-        severity: "positive",
-        description: `Pool liquidity: $${tokenMarket.liquidityUsd.toLocaleString()} — reasonable for trading.`,
-        impact: 5,
-      });
-    }
-  }
+  const { fundingPath, holderClusters, launchAnalysis, washTrading } = inputs;
+  const largestCluster = holderClusters?.clusters[0];
+  const lpPairs = (tokenMarket?.pairs ?? []).filter((p) => p.lp);
+  const lpLiquidityTotal = lpPairs.reduce((sum, p) => sum + p.liquidityUsd, 0);
 
-  // 4. Fresh holders (% new in 1D / 7D) — when data available
-  if (
-    tokenMarket?.freshHolders1dPercent !== undefined ||
-    tokenMarket?.freshHolders7dPercent !== undefined
-  ) {
-    const fresh1d = tokenMarket?.freshHolders1dPercent ?? 0;
-    const fresh7d = tokenMarket?.freshHolders7dPercent ?? 0;
-    if (fresh1d > 50 || fresh7d > 70) {
-      score -= 5;
-      factors.push({
-        id: "very_fresh_holders",
-        label: "Very high share of new holders",
-        severity: "warning",
-        description: `1D: ${fresh1d.toFixed(0)}% new, 7D: ${fresh7d.toFixed(0)}%. Possible wash trading or pump.`,
-        impact: -5,
-      });
-    }
-  }
+  return {
+    ctx: {
+      mint: inputs.mint,
+      creator,
+      holders: holderStats,
+      market: tokenMarket,
+      metadata: inputs.tokenMetadata,
+      funding: fundingPath && {
+        hops: fundingPath.hops.length,
+        stopReason: fundingPath.stopReason,
+        sourceAddress: fundingPath.source?.address,
+        sourceName: fundingPath.source?.label?.name,
+        sourceCategory: fundingPath.source?.label?.category,
+        freshIntermediaries: fundingPath.freshIntermediaries,
+      },
+      clusters: holderClusters && {
+        count: holderClusters.clusters.length,
+        holdersChecked: holderClusters.holdersChecked,
+        largestPercent: holderClusters.largestClusterPercent,
+        largestSize: largestCluster?.members.length ?? 0,
+        largestReasons: largestCluster?.reasons.join(", ") ?? "",
+      },
+      launch: launchAnalysis && {
+        bundleCount: launchAnalysis.bundles.length,
+        creatorBundleCount: launchAnalysis.bundles.filter((b) => b.includesCreator).length,
+        jitoBundleCount: launchAnalysis.bundles.filter((b) => b.jitoTip).length,
+        creatorBundledPercent: launchAnalysis.creatorBundledPercent,
+        bundledPercent: launchAnalysis.bundledPercent,
+        sharedFunderBundleCount: launchAnalysis.bundles.filter((b) => b.sharedFunder !== undefined).length,
+        sameSlotCount: launchAnalysis.sameSlotBuys.length,
+        sameSlotPercent: launchAnalysis.sameSlotPercent,
+        sniperCount: launchAnalysis.snipers.length,
+        sniperPercent: launchAnalysis.sniperPercent,
+      },
+      wash: washTrading && {
+        volumePercent: washTrading.washVolumePercent,
+        wallets: washTrading.washWallets,
+        selfTrades: washTrading.selfTrades.count,
+        roundTrips: washTrading.roundTrips.length,
+        netZeroWallets: washTrading.netZeroWallets.length,
+      },
+      derived: {
+        createdCount,
+        historyPlus: creator.txHistoryTruncated ? "+" : "",
+        holdersPlus: holderStats?.partial ? "+" : "",
+        // creatorFirstTxTimestamp is the time of the mint's creation transaction
+        tokenAgeDays:
+          creator.creatorFirstTxTimestamp !== null
+            ? ((inputs.now ?? Date.now() / 1000) - creator.creatorFirstTxTimestamp) / 86400
+            : undefined,
+        // Concentration without curves, pools, burn, lockers and exchanges (raw on older results)
+        top10Percent: holderStats ? holderStats.adjustedTop10Percent ?? holderStats.top10Percent : undefined,
+        excludedPercent: holderStats ? holderStats.excludedPercent ?? 0 : undefined,
+        connectedCount: connected.length,
+        connectedPercent: connected.reduce((s, h) => s + h.percent, 0),
+        fresh1d: hasFresh ? tokenMarket?.freshHolders1dPercent ?? 0 : undefined,
+        fresh7d: hasFresh ? tokenMarket?.freshHolders7dPercent ?? 0 : undefined,
+        // DEX activity counts only as far as it is not wash trading
+        activityWeight: washTrading?.activityWeight ?? 1,
+        adjustedTxCount24h: washTrading?.adjustedTxCount24h ?? tokenMarket?.txCount24h,
+        adjustedBuys24h: washTrading?.adjustedBuys24h ?? tokenMarket?.buys24h,
+      },
+    },
+    collections: {
+      extensions: (inputs.mintExtensions ?? []).map((ext) => ({
+        ...ext,
+        feePercent: ext.type === "transfer_fee_config" ? ext.transferFeeBasisPoints / 100 : undefined,
+      })),
+      lpPairs: lpPairs.map((pair) => ({
+        ...pair,
+        name: `${pair.quoteSymbol} pool (${pair.dexId ?? pair.lp!.pool})`,
+        // LP impact is weighted by the pair's share of liquidity across analyzed pools
+        weight: lpLiquidityTotal > 0 ? pair.liquidityUsd / lpLiquidityTotal : 1 / lpPairs.length,
+        safePercent: pair.lp!.burnedPercent + pair.lp!.lockedPercent,
+        lockersText: pair.lp!.lockers ? ` (${pair.lp!.lockers.join(", ")})` : "",
+      })),
+    },
+  };
+}
 
-  score = Math.max(0, Math.min(100, score));
+/**
+ * Scores a token with a ruleset (default: built-in "default").
+ */
+export function computeRiskScore(inputs: ScoringInputs, ruleset: Ruleset = getDefaultRuleset()): RiskResult {
+  const { mint, creator: creatorAnalysis, holderStats, tokenMarket, mintExtensions } = inputs;
+  const emissionStatus: EmissionStatus = creatorAnalysis.canMintUnlimited === true ? "unlimited" : "fixed";
+  const creatorSold = holderStats?.creatorHoldPercent !== undefined && holderStats.creatorHoldPercent < 1;
+
+  const createdCount = inputs.creatorTxs.filter(txLooksLikeTokenCreation).length;
+  creatorAnalysis.estimatedTokensCreated = Math.max(createdCount, 1);
 
-  const severity: "high" | "medium" | "low" =
-    score <= 30 ? "high" : score <= 60 ? "medium" : "low";
+  const { ctx, collections } = buildScoringContext(inputs, createdCount);
+  const { score, severity, factors } = evaluateRuleset(ruleset, ctx, collections);
 
   return {
     score,
     severity,
     factors,
+    rulesetVersion: rulesetVersion(ruleset),
+    confidence: computeConfidence(inputs.dataSections ?? {}),
+    dataSections: inputs.dataSections ?? {},
     creator: creatorAnalysis,
     mint,
-    holderStats: resultHolderStats,
+    holderStats,
     emissionStatus,
     creatorSold,
     tokenMarket,
+    mintExtensions: mintExtensions && mintExtensions.length > 0 ? mintExtensions : undefined,
+    tokenMetadata: inputs.tokenMetadata,
+    fundingPath: inputs.fundingPath,
+    holderClusters: inputs.holderClusters,
+    launchAnalysis: inputs.launchAnalysis,
+    washTrading: inputs.washTrading,
   };
 }
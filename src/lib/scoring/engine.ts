@@ -0,0 +1,106 @@
+/**
+ * Ruleset evaluation: conditions, description templates, score and severity.
+ */
+
+import type { RiskFactor } from "@/lib/risk-score";
+import type { Condition, Rule, Ruleset } from "./types";
+
+/** Values rules can read: roots such as "creator", "holders", "derived" and, inside `each` groups, "item". */
+export type ScoringContext = Record<string, unknown>;
+
+export interface RulesetOutcome {
+  score: number;
+  severity: "high" | "medium" | "low";
+  factors: RiskFactor[];
+}
+
+export function resolvePath(ctx: ScoringContext, path: string): unknown {
+  let cur: unknown = ctx;
+  for (const key of path.split(".")) {
+    if (cur === null || typeof cur !== "object") return undefined;
+    cur = (cur as Record<string, unknown>)[key];
+  }
+  return cur;
+}
+
+export function evaluateCondition(cond: Condition, ctx: ScoringContext): boolean {
+  if ("all" in cond) return cond.all.every((c) => evaluateCondition(c, ctx));
+  if ("any" in cond) return cond.any.some((c) => evaluateCondition(c, ctx));
+  if ("not" in cond) return !evaluateCondition(cond.not, ctx);
+  const v = resolvePath(ctx, cond.field);
+  switch (cond.op) {
+    case "exists":
+      return v !== undefined && v !== null;
+    case "truthy":
+      return Boolean(v);
+    case "==":
+      return v === cond.value;
+    case "!=":
+      return v !== cond.value;
+  }
+  // Ordering comparisons only between numbers; a missing value never matches
+  if (typeof v !== "number" || typeof cond.value !== "number") return false;
+  switch (cond.op) {
+    case "<":
+      return v < cond.value;
+    case "<=":
+      return v <= cond.value;
+    case ">":
+      return v > cond.value;
+    case ">=":
+      return v >= cond.value;
+  }
+}
+
+/** Supported template formats: round, locale, fixed0..fixed4. */
+export const TEMPLATE_FORMATS = /^(round|locale|fixed[0-4])$/;
+
+function formatValue(v: unknown, format?: string): string {
+  if (v === undefined || v === null) return "?";
+  if (!format || typeof v !== "number") return String(v);
+  if (format === "round") return String(Math.round(v));
+  if (format === "locale") return v.toLocaleString();
+  return v.toFixed(Number(format.slice(5)));
+}
+
+/** Replaces "{path}" and "{path|format}" placeholders with context values. */
+export function renderTemplate(template: string, ctx: ScoringContext): string {
+  return template.replace(/\{([\w.]+)(?:\|(\w+))?\}/g, (_, path: string, format?: string) =>
+    formatValue(resolvePath(ctx, path), format)
+  );
+}
+
+function applyRule(rule: Rule, ctx: ScoringContext): RiskFactor {
+  const scale = rule.impactScale !== undefined ? Number(resolvePath(ctx, rule.impactScale)) : 1;
+  const impact = Math.round(rule.impact * (Number.isFinite(scale) ? scale : 1));
+  return {
+    id: rule.factor ?? rule.id,
+    label: renderTemplate(rule.label, ctx),
+    severity: rule.severity,
+    description: renderTemplate(rule.description, ctx),
+    impact,
+  };
+}
+
+/**
+ * Evaluates every group of the ruleset. `collections` feeds groups with `each`.
+ */
+export function evaluateRuleset(
+  ruleset: Ruleset,
+  ctx: ScoringContext,
+  collections: Record<string, unknown[]>
+): RulesetOutcome {
+  const factors: RiskFactor[] = [];
+  for (const group of ruleset.groups) {
+    const items = group.each !== undefined ? collections[group.each] ?? [] : [undefined];
+    for (const item of items) {
+      const itemCtx = group.each !== undefined ? { ...ctx, item } : ctx;
+      const rule = group.rules.find((r) => r.when === undefined || evaluateCondition(r.when, itemCtx));
+      if (rule) factors.push(applyRule(rule, itemCtx));
+    }
+  }
+  const raw = factors.reduce((s, f) => s + f.impact, ruleset.baseScore);
+  const score = Math.max(0, Math.min(100, raw));
+  const severity = score <= ruleset.bands.high ? "high" : score <= ruleset.bands.medium ? "medium" : "low";
+  return { score, severity, factors };
+}
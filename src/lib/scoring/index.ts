@@ -0,0 +1,11 @@
+export type { ComparisonOp, Condition, Rule, RuleGroup, Ruleset } from "./types";
+export { evaluateCondition, evaluateRuleset, renderTemplate, type RulesetOutcome, type ScoringContext } from "./engine";
+export {
+  DEFAULT_RULESET_NAME,
+  getDefaultRuleset,
+  listRulesets,
+  loadRuleset,
+  rulesetVersion,
+  validateCondition,
+  validateRuleset,
+} from "./loader";
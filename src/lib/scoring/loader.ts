@@ -0,0 +1,250 @@
+/**
+ * Ruleset loading and validation.
+ * Built-in rulesets ship with the code; extra ones are read from RULESETS_DIR (JSON files)
+ * so analysts can tune thresholds without a code change. The directory is read once per process;
+ * an invalid file only fails requests for its own ruleset.
+ */
+
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { TEMPLATE_FORMATS } from "./engine";
+import defaultRuleset from "./rulesets/default.json";
+import type { RuleGroup, Ruleset } from "./types";
+
+export const DEFAULT_RULESET_NAME = "default";
+
+/** Roots a field path may start with (see buildScoringContext in risk-score.ts). */
+const FIELD_ROOTS = new Set(["mint", "creator", "holders", "market", "metadata", "funding", "clusters", "launch", "wash", "derived", "item"]);
+/** Collections available to `each` groups. */
+export const COLLECTIONS = new Set(["extensions", "lpPairs"]);
+const SEVERITIES = new Set(["critical", "warning", "positive", "neutral"]);
+const OPS = new Set(["<", "<=", ">", ">=", "==", "!=", "exists", "truthy"]);
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function checkField(field: unknown, where: string, errors: string[], roots = FIELD_ROOTS): void {
+  if (typeof field !== "string" || !/^[\w]+(\.[\w]+)*$/.test(field)) {
+    errors.push(`${where}: field must be a dotted path`);
+  } else if (!roots.has(field.split(".")[0])) {
+    errors.push(`${where}: unknown field root in "${field}"`);
+  }
+}
+
+function checkCondition(c: unknown, where: string, errors: string[], roots = FIELD_ROOTS): void {
+  if (!isObject(c)) {
+    errors.push(`${where}: condition must be an object`);
+    return;
+  }
+  if ("all" in c || "any" in c) {
+    const list = c.all ?? c.any;
+    if (!Array.isArray(list) || list.length === 0) {
+      errors.push(`${where}: all/any must be a non-empty array`);
+      return;
+    }
+    list.forEach((sub, i) => checkCondition(sub, `${where}.${"all" in c ? "all" : "any"}[${i}]`, errors, roots));
+    return;
+  }
+  if ("not" in c) {
+    checkCondition(c.not, `${where}.not`, errors, roots);
+    return;
+  }
+  checkField(c.field, where, errors, roots);
+  if (typeof c.op !== "string" || !OPS.has(c.op)) {
+    errors.push(`${where}: unknown op ${JSON.stringify(c.op)}`);
+  } else if (c.op !== "exists" && c.op !== "truthy") {
+    const t = typeof c.value;
+    if (t !== "number" && t !== "string" && t !== "boolean") {
+      errors.push(`${where}: op "${c.op}" needs a number, string or boolean value`);
+    } else if (["<", "<=", ">", ">="].includes(c.op) && t !== "number") {
+      errors.push(`${where}: op "${c.op}" needs a number value`);
+    }
+  }
+}
+
+/**
+ * Validates a condition outside a ruleset (e.g. a watchlist alert rule) whose fields start
+ * with one of `roots`. Returns the problems found (empty = valid).
+ */
+export function validateCondition(raw: unknown, roots: Set<string>, where = "condition"): string[] {
+  const errors: string[] = [];
+  checkCondition(raw, where, errors, roots);
+  return errors;
+}
+
+function checkTemplate(t: unknown, where: string, errors: string[]): void {
+  if (typeof t !== "string" || !t) {
+    errors.push(`${where} must be a non-empty string`);
+    return;
+  }
+  for (const m of t.matchAll(/\{([^}]*)\}/g)) {
+    const [field, format] = m[1].split("|");
+    checkField(field, where, errors);
+    if (format !== undefined && !TEMPLATE_FORMATS.test(format)) {
+      errors.push(`${where}: unknown format "${format}"`);
+    }
+  }
+}
+
+function checkRule(r: unknown, where: string, errors: string[]): void {
+  if (!isObject(r)) {
+    errors.push(`${where} must be an object`);
+    return;
+  }
+  if (typeof r.id !== "string" || !r.id) errors.push(`${where}.id must be a non-empty string`);
+  if (r.factor !== undefined && (typeof r.factor !== "string" || !r.factor)) {
+    errors.push(`${where}.factor must be a non-empty string`);
+  }
+  checkTemplate(r.label, `${where}.label`, errors);
+  checkTemplate(r.description, `${where}.description`, errors);
+  if (typeof r.severity !== "string" || !SEVERITIES.has(r.severity)) {
+    errors.push(`${where}.severity must be one of ${[...SEVERITIES].join(", ")}`);
+  }
+  if (typeof r.impact !== "number" || !Number.isFinite(r.impact)) errors.push(`${where}.impact must be a number`);
+  if (r.impactScale !== undefined) checkField(r.impactScale, `${where}.impactScale`, errors);
+  if (r.when !== undefined) checkCondition(r.when, `${where}.when`, errors);
+}
+
+/**
+ * Validates an untyped ruleset (e.g. parsed JSON). Throws with every problem found.
+ */
+export function validateRuleset(raw: unknown, source = "ruleset"): Ruleset {
+  const errors: string[] = [];
+  if (!isObject(raw)) throw new Error(`Invalid ${source}: must be a JSON object`);
+  if (typeof raw.name !== "string" || !/^[\w-]+$/.test(raw.name)) errors.push("name must match [A-Za-z0-9_-]+");
+  if (typeof raw.version !== "string" || !raw.version) errors.push("version must be a non-empty string");
+  if (typeof raw.baseScore !== "number") errors.push("baseScore must be a number");
+  const bands = raw.bands;
+  if (!isObject(bands) || typeof bands.high !== "number" || typeof bands.medium !== "number" || bands.high > bands.medium) {
+    errors.push("bands must be { high: number, medium: number } with high <= medium");
+  }
+  if (!Array.isArray(raw.groups) || raw.groups.length === 0) {
+    errors.push("groups must be a non-empty array");
+  } else {
+    const ids = new Set<string>();
+    raw.groups.forEach((g: unknown, i: number) => {
+      const where = `groups[${i}]`;
+      if (!isObject(g)) {
+        errors.push(`${where} must be an object`);
+        return;
+      }
+      if (typeof g.id !== "string" || !g.id) errors.push(`${where}.id must be a non-empty string`);
+      else if (ids.has(g.id)) errors.push(`${where}.id "${g.id}" is duplicated`);
+      else ids.add(g.id);
+      if (g.each !== undefined && (typeof g.each !== "string" || !COLLECTIONS.has(g.each))) {
+        errors.push(`${where}.each must be one of ${[...COLLECTIONS].join(", ")}`);
+      }
+      if (!Array.isArray(g.rules) || g.rules.length === 0) {
+        errors.push(`${where}.rules must be a non-empty array`);
+      } else {
+        const ruleIds = new Set<string>();
+        g.rules.forEach((r: unknown, j: number) => {
+          checkRule(r, `${where}.rules[${j}]`, errors);
+          const id = isObject(r) && typeof r.id === "string" ? r.id : undefined;
+          if (id && ruleIds.has(id)) errors.push(`${where}.rules[${j}].id "${id}" is duplicated`);
+          else if (id) ruleIds.add(id);
+        });
+      }
+    });
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${source}: ${errors.join("; ")}`);
+  }
+  return {
+    name: raw.name as string,
+    version: raw.version as string,
+    description: typeof raw.description === "string" ? raw.description : undefined,
+    baseScore: raw.baseScore as number,
+    bands: bands as Ruleset["bands"],
+    groups: raw.groups as RuleGroup[],
+  };
+}
+
+const BUILTIN_RULESETS: Ruleset[] = [validateRuleset(defaultRuleset, "built-in ruleset default")];
+
+interface DirRulesets {
+  rulesets: Ruleset[];
+  /** Why a file was skipped, by the ruleset name it declares (or its file name without .json). */
+  invalid: Map<string, string>;
+}
+
+let dirRulesets: { dir: string; loaded: Promise<DirRulesets> } | undefined;
+
+function errorText(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+/** The ruleset in one RULESETS_DIR file, or why it is invalid. */
+async function loadRulesetFile(abs: string, file: string): Promise<Ruleset | { name: string; error: string }> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path.join(abs, file), "utf8"));
+  } catch (err) {
+    return { name: file.slice(0, -".json".length), error: `Invalid ruleset ${file}: ${errorText(err, "bad JSON")}` };
+  }
+  try {
+    return validateRuleset(raw, `ruleset ${file}`);
+  } catch (err) {
+    const name = isObject(raw) && typeof raw.name === "string" && raw.name ? raw.name : file.slice(0, -".json".length);
+    return { name, error: errorText(err, `Invalid ruleset ${file}`) };
+  }
+}
+
+/** Rulesets from RULESETS_DIR (every *.json). Missing directory = none. */
+async function loadRulesetsFromDir(abs: string): Promise<DirRulesets> {
+  const result: DirRulesets = { rulesets: [], invalid: new Map() };
+  let files: string[];
+  try {
+    files = (await readdir(abs)).filter((f) => f.endsWith(".json"));
+  } catch {
+    return result;
+  }
+  for (const file of files.sort()) {
+    const loaded = await loadRulesetFile(abs, file);
+    if ("error" in loaded) result.invalid.set(loaded.name, loaded.error);
+    else result.rulesets.push(loaded);
+  }
+  return result;
+}
+
+/** RULESETS_DIR contents, read once per process (and again if RULESETS_DIR changes). */
+function getDirRulesets(): Promise<DirRulesets> {
+  const dir = process.env.RULESETS_DIR?.trim();
+  if (!dir) return Promise.resolve({ rulesets: [], invalid: new Map() });
+  const abs = path.resolve(process.cwd(), dir);
+  if (dirRulesets?.dir !== abs) dirRulesets = { dir: abs, loaded: loadRulesetsFromDir(abs) };
+  return dirRulesets.loaded;
+}
+
+/**
+ * All available rulesets; a ruleset in RULESETS_DIR overrides a built-in with the same name.
+ * Invalid files are left out.
+ */
+export async function listRulesets(): Promise<Ruleset[]> {
+  const byName = new Map<string, Ruleset>();
+  for (const r of [...BUILTIN_RULESETS, ...(await getDirRulesets()).rulesets]) byName.set(r.name, r);
+  return [...byName.values()];
+}
+
+/**
+ * Loads a ruleset by name (default: RISK_RULESET env or "default"). Null if no such ruleset exists.
+ * Throws if the ruleset's file in RULESETS_DIR is invalid (instead of silently using a built-in).
+ */
+export async function loadRuleset(name?: string): Promise<Ruleset | null> {
+  const wanted = name?.trim() || process.env.RISK_RULESET?.trim() || DEFAULT_RULESET_NAME;
+  const { rulesets, invalid } = await getDirRulesets();
+  const error = invalid.get(wanted);
+  if (error !== undefined && !rulesets.some((r) => r.name === wanted)) throw new Error(error);
+  const all = await listRulesets();
+  return all.find((r) => r.name === wanted) ?? null;
+}
+
+/** Stamp stored in results: "name@version". */
+export function rulesetVersion(ruleset: Ruleset): string {
+  return `${ruleset.name}@${ruleset.version}`;
+}
+
+export function getDefaultRuleset(): Ruleset {
+  return BUILTIN_RULESETS[0];
+}
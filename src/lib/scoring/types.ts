@@ -0,0 +1,59 @@
+/**
+ * Declarative scoring ruleset.
+ *
+ * A ruleset is a list of rule groups evaluated in order against the scoring context
+ * (creator, holders, market, metadata, derived values). In each group the first rule
+ * whose condition matches produces one RiskFactor; groups with `each` run once per
+ * item of a collection (e.g. every Token-2022 extension, every LP pair).
+ *
+ * Field paths are dotted: "holders.top10Percent", "item.lp.burnedPercent".
+ * Descriptions are templates: "{holders.top10Percent|fixed1}%".
+ */
+
+import type { RiskFactor } from "@/lib/risk-score";
+
+export type ComparisonOp = "<" | "<=" | ">" | ">=" | "==" | "!=";
+
+export type Condition =
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  /** Field is neither undefined nor null. */
+  | { field: string; op: "exists" }
+  /** Field is truthy (non-empty string, true, non-zero). */
+  | { field: string; op: "truthy" }
+  | { field: string; op: ComparisonOp; value: number | string | boolean };
+
+export interface Rule {
+  /** Unique within its group. */
+  id: string;
+  /** Factor id in results (default: `id`); tiers of one factor share it so snapshot diffs see a changed tier. */
+  factor?: string;
+  label: string;
+  severity: RiskFactor["severity"];
+  /** Score change when the rule fires (negative = riskier). */
+  impact: number;
+  /** Field whose numeric value multiplies `impact` (rounded), e.g. "item.weight". */
+  impactScale?: string;
+  description: string;
+  /** Omitted = always matches (fallback tier). */
+  when?: Condition;
+}
+
+export interface RuleGroup {
+  id: string;
+  /** Collection to iterate; each item is available as "item". */
+  each?: string;
+  /** First matching rule wins. */
+  rules: Rule[];
+}
+
+export interface Ruleset {
+  name: string;
+  version: string;
+  description?: string;
+  baseScore: number;
+  /** score <= high → "high" risk; score <= medium → "medium"; otherwise "low". */
+  bands: { high: number; medium: number };
+  groups: RuleGroup[];
+}
@@ -0,0 +1,227 @@
+/**
+ * Persisted analysis snapshots: every analysis result is appended to a per-mint JSON-lines
+ * file under SNAPSHOTS_DIR (default "data/snapshots"), so changes over time can be listed
+ * and diffed. Server-only.
+ *
+ *   SNAPSHOTS_DIR=data/snapshots (relative to the project root)
+ *   SNAPSHOTS_MAX_PER_MINT=500 (oldest snapshots are dropped beyond this)
+ *   SNAPSHOTS=off disables saving
+ */
+
+import { randomBytes } from "crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { RiskFactor, RiskResult } from "@/lib/risk-score";
+import { envInt, isValidSolanaAddress } from "@/lib/utils";
+
+export interface Snapshot {
+  id: string;
+  mint: string;
+  /** Unix ms. */
+  createdAt: number;
+  result: RiskResult;
+}
+
+/** Snapshot without the full result, for listings and charts. */
+export interface SnapshotSummary {
+  id: string;
+  createdAt: number;
+  score: number;
+  severity: RiskResult["severity"];
+  confidence: number;
+  rulesetVersion: string;
+  liquidityUsd?: number;
+  top10Percent?: number;
+}
+
+export interface HolderChange {
+  owner: string;
+  /** Null = not in the top holders of that snapshot. */
+  fromPercent: number | null;
+  toPercent: number | null;
+}
+
+export interface SnapshotDiff {
+  mint: string;
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  scoreDelta: number;
+  severityChanged: boolean;
+  /** Same ruleset on both sides; otherwise factor changes may come from rule edits. */
+  sameRuleset: boolean;
+  factorsAdded: RiskFactor[];
+  factorsRemoved: RiskFactor[];
+  /** Same factor id, different label (e.g. a threshold band or value changed). */
+  factorsChanged: Array<{ id: string; from: RiskFactor; to: RiskFactor }>;
+  topHolders: {
+    entered: HolderChange[];
+    left: HolderChange[];
+    /** Holders in both top lists whose share moved by at least 0.1 percentage points. */
+    changed: HolderChange[];
+    top10PercentDelta?: number;
+  };
+  liquidity: {
+    fromUsd?: number;
+    toUsd?: number;
+    deltaUsd?: number;
+    /** Relative change (-100 = all liquidity gone). */
+    deltaPercent?: number;
+  };
+}
+
+function snapshotsDir(): string {
+  return path.resolve(process.cwd(), process.env.SNAPSHOTS_DIR?.trim() || "data/snapshots");
+}
+
+function snapshotsFile(mint: string): string {
+  // Mints are validated base58, so they are safe file names
+  if (!isValidSolanaAddress(mint)) throw new Error(`Invalid mint "${mint}"`);
+  return path.join(snapshotsDir(), `${mint}.jsonl`);
+}
+
+export function snapshotsEnabled(): boolean {
+  return process.env.SNAPSHOTS?.trim().toLowerCase() !== "off";
+}
+
+export function summarizeSnapshot(s: Snapshot): SnapshotSummary {
+  return {
+    id: s.id,
+    createdAt: s.createdAt,
+    score: s.result.score,
+    severity: s.result.severity,
+    confidence: s.result.confidence,
+    rulesetVersion: s.result.rulesetVersion,
+    liquidityUsd: s.result.tokenMarket?.liquidityUsd,
+    top10Percent: s.result.holderStats?.top10Percent,
+  };
+}
+
+/** All snapshots of a mint, oldest first. Empty if none were saved. */
+export async function listSnapshots(mint: string): Promise<Snapshot[]> {
+  let text: string;
+  try {
+    text = await readFile(snapshotsFile(mint), "utf8");
+  } catch {
+    return [];
+  }
+  const snapshots: Snapshot[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      snapshots.push(JSON.parse(line) as Snapshot);
+    } catch {
+      // Torn line from an interrupted write; skip it
+    }
+  }
+  return snapshots.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// Append-then-trim of a mint's file is serialized per file within the process
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/** Appends a snapshot of `result` and returns it. */
+export function saveSnapshot(result: RiskResult): Promise<Snapshot> {
+  const snapshot: Snapshot = {
+    id: `${Date.now().toString(36)}-${randomBytes(3).toString("hex")}`,
+    mint: result.mint,
+    createdAt: Date.now(),
+    result,
+  };
+  const file = snapshotsFile(result.mint);
+  const run = (writeQueues.get(file) ?? Promise.resolve()).then(async () => {
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, JSON.stringify(snapshot) + "\n");
+
+    const max = envInt("SNAPSHOTS_MAX_PER_MINT", 500);
+    const all = await listSnapshots(result.mint);
+    if (all.length > max) {
+      await writeFile(`${file}.tmp`, all.slice(-max).map((s) => JSON.stringify(s) + "\n").join(""));
+      await rename(`${file}.tmp`, file);
+    }
+    return snapshot;
+  });
+  const queued = run.catch(() => undefined);
+  writeQueues.set(file, queued);
+  // Drop the queue once idle so the map does not grow with every mint analyzed
+  queued.then(() => {
+    if (writeQueues.get(file) === queued) writeQueues.delete(file);
+  });
+  return run;
+}
+
+/**
+ * Saves a snapshot unless disabled; a storage failure must not fail the analysis.
+ * Sets `result.meta.snapshotId` and returns the id (undefined when not saved).
+ */
+export async function recordSnapshot(result: RiskResult): Promise<string | undefined> {
+  if (!snapshotsEnabled()) return undefined;
+  try {
+    const { id } = await saveSnapshot(result);
+    if (result.meta) result.meta.snapshotId = id;
+    return id;
+  } catch {
+    return undefined;
+  }
+}
+
+function holderPercents(result: RiskResult): Map<string, number> {
+  return new Map((result.holderStats?.topHolders ?? []).map((h) => [h.owner, h.percent]));
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Compares two snapshots of the same mint (`from` is usually the older one). */
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotDiff {
+  const fromFactors = new Map(from.result.factors.map((f) => [f.id, f]));
+  const toFactors = new Map(to.result.factors.map((f) => [f.id, f]));
+  const factorsChanged: SnapshotDiff["factorsChanged"] = [];
+  for (const [id, f] of toFactors) {
+    const before = fromFactors.get(id);
+    if (before && before.label !== f.label) factorsChanged.push({ id, from: before, to: f });
+  }
+
+  const fromHolders = holderPercents(from.result);
+  const toHolders = holderPercents(to.result);
+  const entered: HolderChange[] = [];
+  const changed: HolderChange[] = [];
+  for (const [owner, pct] of toHolders) {
+    const before = fromHolders.get(owner);
+    if (before === undefined) entered.push({ owner, fromPercent: null, toPercent: pct });
+    else if (Math.abs(pct - before) >= 0.1) changed.push({ owner, fromPercent: before, toPercent: pct });
+  }
+  const left: HolderChange[] = [...fromHolders]
+    .filter(([owner]) => !toHolders.has(owner))
+    .map(([owner, pct]) => ({ owner, fromPercent: pct, toPercent: null }));
+
+  const top10From = from.result.holderStats?.top10Percent;
+  const top10To = to.result.holderStats?.top10Percent;
+  const liqFrom = from.result.tokenMarket?.liquidityUsd;
+  const liqTo = to.result.tokenMarket?.liquidityUsd;
+  const hasLiquidity = liqFrom !== undefined && liqTo !== undefined;
+
+  return {
+    mint: to.mint,
+    from: summarizeSnapshot(from),
+    to: summarizeSnapshot(to),
+    scoreDelta: to.result.score - from.result.score,
+    severityChanged: to.result.severity !== from.result.severity,
+    sameRuleset: to.result.rulesetVersion === from.result.rulesetVersion,
+    factorsAdded: to.result.factors.filter((f) => !fromFactors.has(f.id)),
+    factorsRemoved: from.result.factors.filter((f) => !toFactors.has(f.id)),
+    factorsChanged,
+    topHolders: {
+      entered,
+      left,
+      changed,
+      top10PercentDelta: top10From !== undefined && top10To !== undefined ? round2(top10To - top10From) : undefined,
+    },
+    liquidity: {
+      fromUsd: liqFrom,
+      toUsd: liqTo,
+      deltaUsd: hasLiquidity ? round2(liqTo - liqFrom) : undefined,
+      deltaPercent: hasLiquidity && liqFrom > 0 ? round2(((liqTo - liqFrom) / liqFrom) * 100) : undefined,
+    },
+  };
+}
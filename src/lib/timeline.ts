@@ -0,0 +1,141 @@
+/**
+ * Chronological timeline of a mint built from the transactions an analysis already fetched:
+ * the first launch transactions, the creator's history and the last 24h of the mint, plus
+ * holder-cluster funding. Each event links to its transaction signature.
+ */
+
+import type { HolderClusterAnalysis } from "@/lib/clusters";
+import type { HeliusTransaction } from "@/lib/helius";
+
+export type TimelineEventKind =
+  | "creation"
+  | "authority_change"
+  | "pool_created"
+  | "migration"
+  | "liquidity_added"
+  | "liquidity_removed"
+  | "creator_sell"
+  | "cluster_funding"
+  | "holder_dump";
+
+export interface TimelineEvent {
+  kind: TimelineEventKind;
+  /** Unix seconds. */
+  timestamp: number;
+  signature: string;
+  /** Wallet that acted (fee payer, seller or funder). */
+  wallet?: string;
+  /** Share of supply moved (sells and dumps). */
+  supplyPercent?: number;
+  description: string;
+}
+
+export interface TimelineInput {
+  mint: string;
+  creatorAddress: string;
+  /** Total supply in UI units; without it sells cannot be sized. */
+  supplyUi: number | null;
+  /** Earliest mint transactions, oldest first (creation first). */
+  launchTxs: HeliusTransaction[];
+  /** Creator history (any order); only transactions touching the mint are used. */
+  creatorTxs: HeliusTransaction[];
+  /** Recent mint transactions (any order). */
+  recentTxs: HeliusTransaction[];
+  holderClusters?: HolderClusterAnalysis;
+  poolCreationSignature?: string;
+}
+
+/** Sells of at least this share of supply are "large" (creator) or "dumps" (other holders). */
+const LARGE_SELL_PERCENT = 1;
+
+const POOL_TYPES = new Set(["CREATE_POOL", "INITIALIZE_POOL"]);
+const ADD_LIQUIDITY_TYPES = new Set(["ADD_LIQUIDITY"]);
+const REMOVE_LIQUIDITY_TYPES = new Set(["WITHDRAW_LIQUIDITY", "REMOVE_LIQUIDITY"]);
+
+function short(address: string): string {
+  return `${address.slice(0, 4)}…${address.slice(-4)}`;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function touchesMint(tx: HeliusTransaction, mint: string): boolean {
+  return (tx.tokenTransfers ?? []).some((t) => t.mint === mint) || (tx.description ?? "").includes(mint);
+}
+
+/** Tokens of `mint` the fee payer sent away in `tx` (UI units). */
+function soldAmount(tx: HeliusTransaction, mint: string): number {
+  return (tx.tokenTransfers ?? [])
+    .filter((t) => t.mint === mint && t.fromUserAccount === tx.feePayer && t.toUserAccount !== tx.feePayer)
+    .reduce((sum, t) => sum + (t.tokenAmount ?? 0), 0);
+}
+
+/** Event for one transaction, or null if it is routine. */
+function classify(tx: HeliusTransaction, input: TimelineInput, isCreation: boolean): TimelineEvent | null {
+  const type = (tx.type ?? "").toUpperCase();
+  const base = { timestamp: tx.timestamp, signature: tx.signature, wallet: tx.feePayer };
+  const byCreator = tx.feePayer === input.creatorAddress;
+  const who = byCreator ? "Creator" : short(tx.feePayer);
+
+  // The attributed creator (a launchpad relayer may have paid the fee)
+  if (isCreation) {
+    return { ...base, wallet: input.creatorAddress, kind: "creation", description: `Token created by ${short(input.creatorAddress)}` };
+  }
+  if (type.includes("AUTHORITY")) {
+    return { ...base, kind: "authority_change", description: tx.description || `${who} changed an authority` };
+  }
+  if (POOL_TYPES.has(type) || tx.signature === input.poolCreationSignature) {
+    return { ...base, kind: "pool_created", description: `${who} created a pool${tx.source ? ` (${tx.source})` : ""}` };
+  }
+  if (type.includes("MIGRAT")) {
+    return { ...base, kind: "migration", description: tx.description || `Migrated${tx.source ? ` via ${tx.source}` : ""}` };
+  }
+  if (ADD_LIQUIDITY_TYPES.has(type)) {
+    return { ...base, kind: "liquidity_added", description: `${who} added liquidity${tx.source ? ` (${tx.source})` : ""}` };
+  }
+  if (REMOVE_LIQUIDITY_TYPES.has(type)) {
+    return { ...base, kind: "liquidity_removed", description: `${who} removed liquidity${tx.source ? ` (${tx.source})` : ""}` };
+  }
+
+  const sold = soldAmount(tx, input.mint);
+  if (sold <= 0 || !input.supplyUi) return null;
+  const supplyPercent = round2((sold / input.supplyUi) * 100);
+  if (supplyPercent < LARGE_SELL_PERCENT) return null;
+  return byCreator
+    ? { ...base, kind: "creator_sell", supplyPercent, description: `Creator sold or sent ${supplyPercent}% of supply` }
+    : { ...base, kind: "holder_dump", supplyPercent, description: `${who} sold or sent ${supplyPercent}% of supply` };
+}
+
+export function buildTimeline(input: TimelineInput): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+  const seen = new Set<string>();
+  const creationSignature = input.launchTxs[0]?.signature;
+  const txs = [
+    ...input.launchTxs,
+    ...input.creatorTxs.filter((tx) => touchesMint(tx, input.mint)),
+    ...input.recentTxs,
+  ];
+  for (const tx of txs) {
+    if (seen.has(tx.signature)) continue;
+    seen.add(tx.signature);
+    const event = classify(tx, input, tx.signature === creationSignature);
+    if (event) events.push(event);
+  }
+
+  for (const cluster of input.holderClusters?.clusters ?? []) {
+    const first = [...cluster.members].sort((a, b) => a.fundedAt - b.fundedAt)[0];
+    if (!first?.fundingSignature) continue;
+    const funders = cluster.commonFunders.length > 0 ? ` by ${cluster.commonFunders.map(short).join(", ")}` : "";
+    events.push({
+      kind: "cluster_funding",
+      timestamp: first.fundedAt,
+      signature: first.fundingSignature,
+      wallet: first.funder,
+      supplyPercent: cluster.supplyPercent,
+      description: `${cluster.id}: ${cluster.members.length} holders (${cluster.supplyPercent}% of supply) funded${funders}`,
+    });
+  }
+
+  return events.sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,132 @@
+/**
+ * Token-2022 mint extensions (TLV area after the base mint layout).
+ *
+ * Layout: base mint (82 bytes) padded to 165 bytes, then 1 byte AccountType (1 = Mint),
+ * then TLV entries: type (u16 LE), length (u16 LE), value.
+ */
+
+import { TOKEN_2022_PROGRAM_ID, type AccountInfo } from "@/lib/helius";
+import { encodeBase58 } from "@/lib/utils";
+
+/** Base account size; Token-2022 pads mints to it so extensions start at the same offset for mints and accounts. */
+const BASE_ACCOUNT_SIZE = 165;
+const ACCOUNT_TYPE_MINT = 1;
+
+const EXTENSION_NAMES: Record<number, string> = {
+  1: "transfer_fee_config",
+  3: "mint_close_authority",
+  4: "confidential_transfer_mint",
+  6: "default_account_state",
+  9: "non_transferable",
+  10: "interest_bearing_config",
+  12: "permanent_delegate",
+  14: "transfer_hook",
+  16: "confidential_transfer_fee_config",
+  18: "metadata_pointer",
+  19: "token_metadata",
+  20: "group_pointer",
+  21: "token_group",
+  22: "group_member_pointer",
+  23: "token_group_member",
+  24: "confidential_mint_burn",
+  25: "scaled_ui_amount",
+  26: "pausable",
+};
+
+export type MintExtension =
+  | {
+      type: "transfer_fee_config";
+      /** Fee of the newest config (applies from `epoch`), in basis points. */
+      transferFeeBasisPoints: number;
+      /** Maximum fee per transfer, raw units (u64 as string). */
+      maximumFee: string;
+      epoch: string;
+      /** Fee before `epoch`. */
+      olderTransferFeeBasisPoints: number;
+      /** Can change the fee (up to 100%). Null = fee is fixed. */
+      configAuthority: string | null;
+      withdrawWithheldAuthority: string | null;
+    }
+  | { type: "permanent_delegate"; delegate: string | null }
+  | { type: "transfer_hook"; programId: string | null; authority: string | null }
+  | { type: "non_transferable" }
+  | { type: "default_account_state"; state: "uninitialized" | "initialized" | "frozen" }
+  | { type: "confidential_transfer_mint"; authority: string | null; autoApproveNewAccounts: boolean }
+  | { type: "mint_close_authority"; closeAuthority: string | null }
+  | { type: "other"; extensionType: number; name: string };
+
+/** OptionalNonZeroPubkey: all-zero bytes mean "none". */
+function readOptionalPubkey(buf: Buffer, offset: number): string | null {
+  const key = buf.subarray(offset, offset + 32);
+  if (key.length < 32 || key.every((b) => b === 0)) return null;
+  return encodeBase58(key);
+}
+
+function decodeExtension(type: number, v: Buffer): MintExtension {
+  switch (type) {
+    case 1:
+      // authority(32) withdraw_authority(32) withheld(u64) older{epoch u64, max u64, bps u16} newer{...}
+      return {
+        type: "transfer_fee_config",
+        configAuthority: readOptionalPubkey(v, 0),
+        withdrawWithheldAuthority: readOptionalPubkey(v, 32),
+        olderTransferFeeBasisPoints: v.readUInt16LE(88),
+        epoch: v.readBigUInt64LE(90).toString(),
+        maximumFee: v.readBigUInt64LE(98).toString(),
+        transferFeeBasisPoints: v.readUInt16LE(106),
+      };
+    case 3:
+      return { type: "mint_close_authority", closeAuthority: readOptionalPubkey(v, 0) };
+    case 4:
+      return {
+        type: "confidential_transfer_mint",
+        authority: readOptionalPubkey(v, 0),
+        autoApproveNewAccounts: v[32] === 1,
+      };
+    case 6:
+      return {
+        type: "default_account_state",
+        state: v[0] === 2 ? "frozen" : v[0] === 1 ? "initialized" : "uninitialized",
+      };
+    case 9:
+      return { type: "non_transferable" };
+    case 12:
+      return { type: "permanent_delegate", delegate: readOptionalPubkey(v, 0) };
+    case 14:
+      return { type: "transfer_hook", authority: readOptionalPubkey(v, 0), programId: readOptionalPubkey(v, 32) };
+    default:
+      return { type: "other", extensionType: type, name: EXTENSION_NAMES[type] ?? `unknown_${type}` };
+  }
+}
+
+/**
+ * Decodes Token-2022 mint extensions. Empty for plain SPL mints or mints without extensions.
+ */
+export function decodeMintExtensions(account: AccountInfo): MintExtension[] {
+  if (account.owner !== TOKEN_2022_PROGRAM_ID) return [];
+  let buf: Buffer;
+  try {
+    buf = Buffer.from(account.data, "base64");
+  } catch {
+    return [];
+  }
+  if (buf.length <= BASE_ACCOUNT_SIZE || buf[BASE_ACCOUNT_SIZE] !== ACCOUNT_TYPE_MINT) return [];
+
+  const extensions: MintExtension[] = [];
+  let offset = BASE_ACCOUNT_SIZE + 1;
+  while (offset + 4 <= buf.length) {
+    const type = buf.readUInt16LE(offset);
+    const length = buf.readUInt16LE(offset + 2);
+    // Type 0 = uninitialized padding: rest of the buffer is empty
+    if (type === 0) break;
+    const value = buf.subarray(offset + 4, offset + 4 + length);
+    if (value.length < length) break;
+    try {
+      extensions.push(decodeExtension(type, value));
+    } catch {
+      extensions.push({ type: "other", extensionType: type, name: EXTENSION_NAMES[type] ?? `unknown_${type}` });
+    }
+    offset += 4 + length;
+  }
+  return extensions;
+}
@@ -0,0 +1,162 @@
+/**
+ * Creator track record: what happened to the creator's earlier tokens. Each one is classified
+ * from the creator's own transactions (liquidity added/removed, sells) plus current liquidity
+ * and the token's latest activity:
+ *
+ *   alive          — traded within the last 7 days (small launches included)
+ *   rugged         — the creator pulled liquidity or sold, and liquidity is (nearly) gone
+ *   abandoned      — launched, but no activity for more than 7 days
+ *   never_launched — no pool, no liquidity and no trading after creation
+ */
+
+import type { HeliusTransaction } from "@/lib/helius";
+import type { CreatorAnalysis, CreatorPreviousToken } from "@/lib/risk-score";
+
+export type PreviousTokenStatus = "alive" | "abandoned" | "rugged" | "never_launched";
+
+/** Liquidity below this is gone (with a creator pull or sell: rugged). */
+const MIN_LIQUIDITY_USD = 1000;
+/** No activity for longer than this = abandoned. */
+const ACTIVE_WINDOW_S = 7 * 86400;
+/** Launched and dead within this many days (creation to last activity) = create → pump → abandon. */
+const PUMP_LIFETIME_DAYS = 7;
+/** Liquidity below this share of the estimated peak counts as pulled. */
+const RUG_RETAINED_PERCENT = 20;
+/** Activity within this long after creation does not count as a launch. */
+const LAUNCH_GRACE_S = 3600;
+const LAMPORTS_PER_SOL = 1_000_000_000;
+
+const ADD_LIQUIDITY_TYPES = new Set(["ADD_LIQUIDITY", "CREATE_POOL", "INITIALIZE_POOL"]);
+const REMOVE_LIQUIDITY_TYPES = new Set(["WITHDRAW_LIQUIDITY", "REMOVE_LIQUIDITY"]);
+const SELL_TYPES = new Set(["SWAP", "SELL"]);
+
+/** Survival fields added to a previous token. */
+export type TokenSurvival = Pick<
+  CreatorPreviousToken,
+  | "status"
+  | "createdAt"
+  | "lastActivityAt"
+  | "lifetimeDays"
+  | "peakLiquidityUsd"
+  | "liquidityRetainedPercent"
+  | "creatorRemovedLiquidity"
+  | "creatorSold"
+  | "pumpAndAbandon"
+>;
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function lamportsBetween(tx: HeliusTransaction, from: string | undefined, to: string | undefined): number {
+  return (tx.nativeTransfers ?? [])
+    .filter((t) => (from === undefined || t.fromUserAccount === from) && (to === undefined || t.toUserAccount === to))
+    .reduce((sum, t) => sum + (t.amount ?? 0), 0);
+}
+
+/**
+ * Classifies one earlier token. `creatorTxs` = the creator's history (any order);
+ * `solPriceUsd` turns the SOL the creator put into pools into an estimated peak liquidity
+ * (both sides of the pool, at today's SOL price).
+ */
+export function assessPreviousToken(
+  token: Pick<CreatorPreviousToken, "mint" | "liquidityUsd" | "pairs">,
+  creatorAddress: string,
+  creatorTxs: HeliusTransaction[],
+  lastActivityAt: number | undefined,
+  solPriceUsd: number | undefined,
+  now = Math.floor(Date.now() / 1000)
+): TokenSurvival {
+  const txs = creatorTxs
+    .filter((tx) => (tx.tokenTransfers ?? []).some((t) => t.mint === token.mint))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const createdAt = txs[0]?.timestamp;
+
+  let netSol = 0;
+  let peakSol = 0;
+  let creatorRemovedLiquidity = false;
+  let creatorSold = false;
+  for (const tx of txs) {
+    const type = (tx.type ?? "").toUpperCase();
+    if (ADD_LIQUIDITY_TYPES.has(type)) {
+      netSol += lamportsBetween(tx, creatorAddress, undefined) / LAMPORTS_PER_SOL;
+      peakSol = Math.max(peakSol, netSol);
+    } else if (REMOVE_LIQUIDITY_TYPES.has(type)) {
+      creatorRemovedLiquidity = true;
+      netSol = Math.max(0, netSol - lamportsBetween(tx, undefined, creatorAddress) / LAMPORTS_PER_SOL);
+    } else if (
+      SELL_TYPES.has(type) &&
+      (tx.tokenTransfers ?? []).some((t) => t.mint === token.mint && t.fromUserAccount === creatorAddress)
+    ) {
+      creatorSold = true;
+    }
+  }
+
+  const peakLiquidityUsd =
+    peakSol > 0 && solPriceUsd ? Math.max(Math.round(peakSol * 2 * solPriceUsd), token.liquidityUsd) : undefined;
+  const liquidityRetainedPercent =
+    peakLiquidityUsd ? round1(Math.min(100, (token.liquidityUsd / peakLiquidityUsd) * 100)) : undefined;
+  const lastSeen = lastActivityAt ?? txs[txs.length - 1]?.timestamp;
+  const lifetimeDays =
+    createdAt !== undefined && lastSeen !== undefined ? round1(Math.max(0, lastSeen - createdAt) / 86400) : undefined;
+
+  const launched =
+    token.pairs.length > 0 ||
+    peakSol > 0 ||
+    creatorSold ||
+    (createdAt !== undefined && lastSeen !== undefined && lastSeen - createdAt > LAUNCH_GRACE_S);
+  const liquidityGone =
+    token.liquidityUsd < MIN_LIQUIDITY_USD ||
+    (liquidityRetainedPercent !== undefined && liquidityRetainedPercent < RUG_RETAINED_PERCENT);
+  const active = lastSeen !== undefined && now - lastSeen <= ACTIVE_WINDOW_S;
+
+  let status: PreviousTokenStatus;
+  if (!launched) status = "never_launched";
+  else if ((creatorRemovedLiquidity || creatorSold) && liquidityGone) status = "rugged";
+  else if (active) status = "alive";
+  else status = "abandoned";
+
+  return {
+    status,
+    createdAt,
+    lastActivityAt: lastSeen,
+    lifetimeDays,
+    peakLiquidityUsd,
+    liquidityRetainedPercent,
+    creatorRemovedLiquidity,
+    creatorSold,
+    // Only a token that has stopped trading is dead; a young one still trading is not
+    pumpAndAbandon:
+      !active &&
+      (status === "rugged" || status === "abandoned") &&
+      lifetimeDays !== undefined &&
+      lifetimeDays <= PUMP_LIFETIME_DAYS,
+  };
+}
+
+/** Creator-level counts and rug rate over the classified earlier tokens. */
+export function summarizeTrackRecord(
+  tokens: CreatorPreviousToken[]
+): Pick<
+  CreatorAnalysis,
+  | "previousTokensChecked"
+  | "previousTokensLaunched"
+  | "previousTokensAlive"
+  | "previousTokensRugged"
+  | "previousTokensAbandoned"
+  | "pumpAndAbandonCount"
+  | "rugRatePercent"
+> {
+  const count = (status: PreviousTokenStatus) => tokens.filter((t) => t.status === status).length;
+  const launched = tokens.filter((t) => t.status !== undefined && t.status !== "never_launched").length;
+  const rugged = count("rugged");
+  return {
+    previousTokensChecked: tokens.length,
+    previousTokensLaunched: launched,
+    previousTokensAlive: count("alive"),
+    previousTokensRugged: rugged,
+    previousTokensAbandoned: count("abandoned"),
+    pumpAndAbandonCount: tokens.filter((t) => t.pumpAndAbandon).length,
+    rugRatePercent: launched > 0 ? round1((rugged / launched) * 100) : undefined,
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * Wash trading in the last 24h of a mint's transactions: self-trades, round-trip token flows
+ * among a few wallets, and traders whose buys and sells net to zero. Their share of the traded
+ * volume discounts DEX activity counts (txCount24h, buys24h) in the score.
+ */
+
+import type { HeliusTransaction } from "@/lib/helius";
+import { iterateTransactionPages, type PageBudget, type TruncatedReason } from "@/lib/history";
+import type { DataProvider } from "@/lib/providers";
+import { envInt } from "@/lib/utils";
+
+const WINDOW_S = 86400;
+/** Accounts with this many counterparties are pools/routers, not wash rings. */
+const HUB_COUNTERPARTIES = 10;
+/** Round-trip rings larger than this are not "a small set of wallets". */
+const MAX_RING_SIZE = 5;
+/** Bought and sold within this fraction of each other = net zero. */
+const NET_ZERO_TOLERANCE = 0.02;
+
+export interface RoundTrip {
+  wallets: string[];
+  /** Token transfers among the ring's wallets. */
+  transfers: number;
+  /** UI units moved among them. */
+  tokenAmount: number;
+}
+
+export interface NetZeroWallet {
+  wallet: string;
+  /** UI units. */
+  bought: number;
+  sold: number;
+  trades: number;
+}
+
+export interface WashTradingAnalysis {
+  /** Transactions of the last 24h that were analyzed. */
+  txsAnalyzed: number;
+  /** False when the budget ran out before the start of the 24h window. */
+  complete: boolean;
+  truncatedReason?: TruncatedReason;
+  /** Transactions in which one wallet is on both sides of the token transfer. */
+  selfTrades: { count: number; wallets: string[] };
+  roundTrips: RoundTrip[];
+  netZeroWallets: NetZeroWallet[];
+  /** Distinct wallets in any of the above. */
+  washWallets: number;
+  /** Traded volume (UI units, buys + sells) in the analyzed window. */
+  volume: number;
+  /** Share of that volume traded by wash wallets (0–100). */
+  washVolumePercent: number;
+  /** 1 − wash share: how much DEX activity counts are trusted. */
+  activityWeight: number;
+  /** DexScreener counts discounted by the wash share. */
+  adjustedTxCount24h?: number;
+  adjustedBuys24h?: number;
+}
+
+/** Budget for the 24h window from env (WASH_MAX_PAGES, WASH_TIME_BUDGET_MS). */
+export function getWashBudget(): PageBudget {
+  return {
+    maxPages: envInt("WASH_MAX_PAGES", 5),
+    timeBudgetMs: envInt("WASH_TIME_BUDGET_MS", 6000),
+  };
+}
+
+export interface RecentTransactions {
+  /** Newest first. */
+  txs: HeliusTransaction[];
+  /** Set when the budget ran out before the start of the 24h window. */
+  truncatedReason?: TruncatedReason;
+}
+
+/** Mint transactions of the last 24h, within `budget` (default WASH_MAX_PAGES / WASH_TIME_BUDGET_MS). */
+export async function fetchRecentTransactions(
+  provider: DataProvider,
+  mint: string,
+  now = Math.floor(Date.now() / 1000),
+  budget: PageBudget = getWashBudget()
+): Promise<RecentTransactions> {
+  const since = now - WINDOW_S;
+  const txs: HeliusTransaction[] = [];
+  const it = iterateTransactionPages(provider, mint, budget);
+  for (;;) {
+    const next = await it.next();
+    if (next.done) return { txs, truncatedReason: next.value };
+    const recent = next.value.filter((tx) => tx.timestamp >= since);
+    txs.push(...recent);
+    if (recent.length < next.value.length) return { txs };
+  }
+}
+
+/** Strongly connected components (Tarjan) of a directed graph. */
+function stronglyConnected(graph: Map<string, Set<string>>): string[][] {
+  const index = new Map<string, number>();
+  const low = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+  let counter = 0;
+
+  const visit = (v: string) => {
+    index.set(v, counter);
+    low.set(v, counter);
+    counter++;
+    stack.push(v);
+    onStack.add(v);
+    for (const w of graph.get(v) ?? []) {
+      if (!index.has(w)) {
+        visit(w);
+        low.set(v, Math.min(low.get(v)!, low.get(w)!));
+      } else if (onStack.has(w)) {
+        low.set(v, Math.min(low.get(v)!, index.get(w)!));
+      }
+    }
+    if (low.get(v) === index.get(v)) {
+      const component: string[] = [];
+      let w: string;
+      do {
+        w = stack.pop()!;
+        onStack.delete(w);
+        component.push(w);
+      } while (w !== v);
+      components.push(component);
+    }
+  };
+  for (const v of graph.keys()) if (!index.has(v)) visit(v);
+  return components;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Detection over already fetched transactions (any order). */
+function detectWashTrading(
+  txs: HeliusTransaction[],
+  mint: string,
+  market: { txCount24h?: number; buys24h?: number } = {}
+): Omit<WashTradingAnalysis, "complete" | "truncatedReason"> {
+  const selfTradeWallets = new Set<string>();
+  let selfTradeCount = 0;
+  const trades = new Map<string, { bought: number; sold: number; trades: number }>();
+  const edges = new Map<string, { count: number; amount: number }>();
+  const counterparties = new Map<string, Set<string>>();
+
+  for (const tx of txs) {
+    const transfers = (tx.tokenTransfers ?? []).filter((t) => t.mint === mint && t.fromUserAccount && t.toUserAccount);
+    if (transfers.length === 0) continue;
+    let bought = 0;
+    let sold = 0;
+    let selfTrade = false;
+    for (const t of transfers) {
+      const from = t.fromUserAccount!;
+      const to = t.toUserAccount!;
+      const amount = t.tokenAmount ?? 0;
+      if (from === to) {
+        selfTrade = true;
+        continue;
+      }
+      if (to === tx.feePayer) bought += amount;
+      if (from === tx.feePayer) sold += amount;
+      const key = `${from}>${to}`;
+      const edge = edges.get(key) ?? { count: 0, amount: 0 };
+      edge.count++;
+      edge.amount += amount;
+      edges.set(key, edge);
+      for (const [a, b] of [[from, to], [to, from]]) {
+        const set = counterparties.get(a) ?? new Set<string>();
+        set.add(b);
+        counterparties.set(a, set);
+      }
+    }
+    // Buying and selling the token in one transaction is a self-trade too
+    if (selfTrade || (bought > 0 && sold > 0)) {
+      selfTradeCount++;
+      selfTradeWallets.add(tx.feePayer);
+    }
+    if (bought > 0 || sold > 0) {
+      const t = trades.get(tx.feePayer) ?? { bought: 0, sold: 0, trades: 0 };
+      t.bought += bought;
+      t.sold += sold;
+      t.trades++;
+      trades.set(tx.feePayer, t);
+    }
+  }
+
+  // Round trips: cycles of direct transfers among a few wallets. Pools never sign transactions,
+  // so only fee payers take part; busy hubs (routers, exchanges) are left out too.
+  const signers = new Set(txs.map((tx) => tx.feePayer));
+  const isWallet = (a: string) => signers.has(a) && (counterparties.get(a)?.size ?? 0) < HUB_COUNTERPARTIES;
+  const graph = new Map<string, Set<string>>();
+  for (const key of edges.keys()) {
+    const [from, to] = key.split(">");
+    if (!isWallet(from) || !isWallet(to)) continue;
+    graph.set(from, (graph.get(from) ?? new Set<string>()).add(to));
+    if (!graph.has(to)) graph.set(to, new Set<string>());
+  }
+  const roundTrips: RoundTrip[] = stronglyConnected(graph)
+    .filter((c) => c.length >= 2 && c.length <= MAX_RING_SIZE)
+    .map((wallets) => {
+      const members = new Set(wallets);
+      let transfers = 0;
+      let tokenAmount = 0;
+      for (const [key, edge] of edges) {
+        const [from, to] = key.split(">");
+        if (members.has(from) && members.has(to)) {
+          transfers += edge.count;
+          tokenAmount += edge.amount;
+        }
+      }
+      return { wallets, transfers, tokenAmount: round2(tokenAmount) };
+    });
+
+  const netZeroWallets: NetZeroWallet[] = [...trades]
+    .filter(([, t]) => {
+      const max = Math.max(t.bought, t.sold);
+      return t.trades >= 2 && t.bought > 0 && t.sold > 0 && Math.abs(t.bought - t.sold) <= max * NET_ZERO_TOLERANCE;
+    })
+    .map(([wallet, t]) => ({ wallet, bought: round2(t.bought), sold: round2(t.sold), trades: t.trades }));
+
+  const washSet = new Set([
+    ...selfTradeWallets,
+    ...roundTrips.flatMap((r) => r.wallets),
+    ...netZeroWallets.map((w) => w.wallet),
+  ]);
+  let volume = 0;
+  let washVolume = 0;
+  for (const [wallet, t] of trades) {
+    volume += t.bought + t.sold;
+    if (washSet.has(wallet)) washVolume += t.bought + t.sold;
+  }
+  const washVolumePercent = volume > 0 ? round2((washVolume / volume) * 100) : 0;
+  const activityWeight = round2(1 - washVolumePercent / 100);
+
+  return {
+    txsAnalyzed: txs.length,
+    selfTrades: { count: selfTradeCount, wallets: [...selfTradeWallets] },
+    roundTrips,
+    netZeroWallets,
+    washWallets: washSet.size,
+    volume: round2(volume),
+    washVolumePercent,
+    activityWeight,
+    adjustedTxCount24h: market.txCount24h !== undefined ? Math.round(market.txCount24h * activityWeight) : undefined,
+    adjustedBuys24h: market.buys24h !== undefined ? Math.round(market.buys24h * activityWeight) : undefined,
+  };
+}
+
+/** Looks for wash trading in the mint's recent transactions. `market` = DexScreener counts to discount. */
+export function analyzeWashTrading(
+  recent: RecentTransactions,
+  mint: string,
+  market: { txCount24h?: number; buys24h?: number } = {}
+): WashTradingAnalysis {
+  return {
+    ...detectWashTrading(recent.txs, mint, market),
+    complete: recent.truncatedReason === undefined,
+    truncatedReason: recent.truncatedReason,
+  };
+}
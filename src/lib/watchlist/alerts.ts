@@ -0,0 +1,115 @@
+/**
+ * Alert rule validation and evaluation. Rules fire on transitions (previous snapshot → new
+ * result), so a token that stays risky does not alert on every check.
+ */
+
+import { randomBytes } from "crypto";
+import type { RiskResult } from "@/lib/risk-score";
+import { evaluateCondition, validateCondition } from "@/lib/scoring";
+import type { Alert, AlertRule } from "./types";
+
+const CONDITION_ROOTS = new Set(["result", "previous"]);
+
+/** Rules used when an entry is created without any. */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: "score-below-30", type: "score_below", threshold: 30 },
+  { id: "mint-authority", type: "authority_enabled", authority: "mint" },
+  { id: "freeze-authority", type: "authority_enabled", authority: "freeze" },
+  { id: "liquidity-drop-50", type: "liquidity_drop", percent: 50 },
+  { id: "creator-sold", type: "creator_sold" },
+];
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Validates untyped alert rules (request body). Missing ids are generated. Throws with every problem found.
+ */
+export function validateAlertRules(raw: unknown): AlertRule[] {
+  if (!Array.isArray(raw)) throw new Error("Invalid rules: must be an array");
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  const rules = raw.map((r: unknown, i: number): AlertRule | null => {
+    const where = `rules[${i}]`;
+    if (!isObject(r)) {
+      errors.push(`${where} must be an object`);
+      return null;
+    }
+    const id = typeof r.id === "string" && r.id.trim() ? r.id.trim() : `${r.type}-${randomBytes(3).toString("hex")}`;
+    if (ids.has(id)) errors.push(`${where}.id "${id}" is duplicated`);
+    ids.add(id);
+    switch (r.type) {
+      case "score_below":
+        if (typeof r.threshold !== "number" || r.threshold < 0 || r.threshold > 100) {
+          errors.push(`${where}.threshold must be a number 0–100`);
+        }
+        return { id, type: r.type, threshold: r.threshold as number };
+      case "authority_enabled":
+        if (r.authority !== "mint" && r.authority !== "freeze") errors.push(`${where}.authority must be "mint" or "freeze"`);
+        return { id, type: r.type, authority: r.authority as "mint" | "freeze" };
+      case "liquidity_drop":
+        if (typeof r.percent !== "number" || r.percent <= 0 || r.percent > 100) {
+          errors.push(`${where}.percent must be a number in (0, 100]`);
+        }
+        return { id, type: r.type, percent: r.percent as number };
+      case "creator_sold":
+        return { id, type: r.type };
+      case "condition": {
+        errors.push(...validateCondition(r.when, CONDITION_ROOTS, `${where}.when`));
+        const label = typeof r.label === "string" && r.label.trim() ? r.label.trim() : undefined;
+        return { id, type: r.type, when: r.when as Extract<AlertRule, { type: "condition" }>["when"], label };
+      }
+      default:
+        errors.push(`${where}.type must be one of score_below, authority_enabled, liquidity_drop, creator_sold, condition`);
+        return null;
+    }
+  });
+  if (errors.length > 0) throw new Error(`Invalid rules: ${errors.join("; ")}`);
+  return rules as AlertRule[];
+}
+
+function checkRule(rule: AlertRule, result: RiskResult, previous: RiskResult | undefined): string | null {
+  switch (rule.type) {
+    case "score_below":
+      if (result.score >= rule.threshold) return null;
+      if (previous && previous.score < rule.threshold) return null;
+      return `Score ${result.score} is below ${rule.threshold}${previous ? ` (was ${previous.score})` : ""}`;
+    case "authority_enabled": {
+      const key = rule.authority === "mint" ? "mintAuthority" : "freezeAuthority";
+      const now = result.creator[key];
+      // Only a transition from revoked (null) counts; unknown (undefined) on either side does not
+      if (!now || previous?.creator[key] !== null) return null;
+      return `${rule.authority === "mint" ? "Mint" : "Freeze"} authority re-enabled: ${now}`;
+    }
+    case "liquidity_drop": {
+      // No market data now is unknown liquidity, not zero
+      if (!result.tokenMarket || result.dataSections.market?.status === "failed") return null;
+      const before = previous?.tokenMarket?.liquidityUsd;
+      const after = result.tokenMarket.liquidityUsd ?? 0;
+      if (!before || before <= 0) return null;
+      const drop = ((before - after) / before) * 100;
+      if (drop < rule.percent) return null;
+      return `Liquidity fell ${drop.toFixed(0)}%: $${Math.round(before).toLocaleString()} → $${Math.round(after).toLocaleString()}`;
+    }
+    case "creator_sold":
+      if (!result.creatorSold || previous?.creatorSold === true) return null;
+      return `Creator sold: holds ${result.holderStats?.creatorHoldPercent?.toFixed(2) ?? "?"}% of supply`;
+    case "condition": {
+      if (!evaluateCondition(rule.when, { result, previous })) return null;
+      // Edge-triggered: the same condition evaluated on the previous result must not match
+      if (previous && evaluateCondition(rule.when, { result: previous, previous: undefined })) return null;
+      return rule.label ?? `Condition ${rule.id} matched`;
+    }
+  }
+}
+
+/** Alerts for a new result. `previous` = the last snapshot before this analysis, if any. */
+export function evaluateAlerts(rules: AlertRule[], result: RiskResult, previous?: RiskResult): Alert[] {
+  const alerts: Alert[] = [];
+  for (const rule of rules) {
+    const message = checkRule(rule, result, previous);
+    if (message) alerts.push({ ruleId: rule.id, type: rule.type, message });
+  }
+  return alerts;
+}
@@ -0,0 +1,110 @@
+/**
+ * Watchlist CRUD with request validation (used by /api/watchlist).
+ */
+
+import { AnalysisError } from "@/lib/analyze";
+import { isValidSolanaAddress } from "@/lib/utils";
+import { DEFAULT_ALERT_RULES, validateAlertRules } from "./alerts";
+import { newId, updateEntries } from "./store";
+import type { WatchlistEntry } from "./types";
+import { webhookUrlProblem } from "./webhooks";
+
+/** Default re-analysis interval for new entries. */
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+type EntryFields = Pick<WatchlistEntry, "label" | "rules" | "webhooks" | "intervalMinutes" | "ruleset">;
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** Validates the editable fields present in `raw`. Throws AnalysisError 400 with every problem found. */
+function parseFields(raw: Record<string, unknown>): Partial<EntryFields> {
+  const errors: string[] = [];
+  const fields: Partial<EntryFields> = {};
+  if (raw.label !== undefined) {
+    if (typeof raw.label !== "string") errors.push("label must be a string");
+    else fields.label = raw.label.trim() || undefined;
+  }
+  if (raw.rules !== undefined) {
+    try {
+      fields.rules = validateAlertRules(raw.rules);
+    } catch (err) {
+      errors.push(err instanceof Error ? err.message : "Invalid rules");
+    }
+  }
+  if (raw.webhooks !== undefined) {
+    const urls = Array.isArray(raw.webhooks) ? raw.webhooks : null;
+    if (!urls || !urls.every((u) => typeof u === "string")) {
+      errors.push("webhooks must be an array of http(s) URLs");
+    } else {
+      const problems = urls.flatMap((u: string, i) => {
+        const problem = webhookUrlProblem(u);
+        return problem ? [`webhooks[${i}] ${problem}`] : [];
+      });
+      if (problems.length > 0) errors.push(...problems);
+      else fields.webhooks = urls as string[];
+    }
+  }
+  if (raw.intervalMinutes !== undefined) {
+    if (typeof raw.intervalMinutes !== "number" || !(raw.intervalMinutes >= 1)) {
+      errors.push("intervalMinutes must be a number >= 1");
+    } else {
+      fields.intervalMinutes = Math.floor(raw.intervalMinutes);
+    }
+  }
+  if (raw.ruleset !== undefined) {
+    if (typeof raw.ruleset !== "string") errors.push("ruleset must be a string");
+    else fields.ruleset = raw.ruleset.trim() || undefined;
+  }
+  if (errors.length > 0) throw new AnalysisError(errors.join("; "), 400);
+  return fields;
+}
+
+/** Adds a mint to the watchlist. 409 if it is already watched. */
+export async function createEntry(raw: unknown): Promise<WatchlistEntry> {
+  if (!isObject(raw)) throw new AnalysisError("Body must be a JSON object", 400);
+  const mint = typeof raw.mint === "string" ? raw.mint.trim() : "";
+  if (!isValidSolanaAddress(mint)) {
+    throw new AnalysisError("Invalid Solana address (expected 32–44 base58 characters)", 400);
+  }
+  const fields = parseFields(raw);
+  const now = Date.now();
+  const entry: WatchlistEntry = {
+    id: newId(),
+    mint,
+    label: fields.label,
+    rules: fields.rules ?? DEFAULT_ALERT_RULES,
+    webhooks: fields.webhooks ?? [],
+    intervalMinutes: fields.intervalMinutes ?? DEFAULT_INTERVAL_MINUTES,
+    ruleset: fields.ruleset,
+    createdAt: now,
+    updatedAt: now,
+  };
+  return updateEntries((entries) => {
+    if (entries.some((e) => e.mint === mint)) throw new AnalysisError(`${mint} is already on the watchlist`, 409);
+    entries.push(entry);
+    return entry;
+  });
+}
+
+/** Updates label, rules, webhooks, interval or ruleset. 404 if the entry does not exist. */
+export async function updateEntry(id: string, raw: unknown): Promise<WatchlistEntry> {
+  if (!isObject(raw)) throw new AnalysisError("Body must be a JSON object", 400);
+  const fields = parseFields(raw);
+  return updateEntries((entries) => {
+    const entry = entries.find((e) => e.id === id);
+    if (!entry) throw new AnalysisError(`Watchlist entry ${id} not found`, 404);
+    Object.assign(entry, fields, { updatedAt: Date.now() });
+    return entry;
+  });
+}
+
+/** Removes an entry. 404 if it does not exist. */
+export async function deleteEntry(id: string): Promise<void> {
+  await updateEntries((entries) => {
+    const i = entries.findIndex((e) => e.id === id);
+    if (i < 0) throw new AnalysisError(`Watchlist entry ${id} not found`, 404);
+    entries.splice(i, 1);
+  });
+}
@@ -0,0 +1,6 @@
+export type { Alert, AlertPayload, AlertRule, AlertRuleType, DeliveryRecord, WatchlistEntry } from "./types";
+export { DEFAULT_ALERT_RULES, evaluateAlerts, validateAlertRules } from "./alerts";
+export { createEntry, deleteEntry, updateEntry } from "./entries";
+export { getEntry, listDeliveries, listEntries, watchlistDir } from "./store";
+export { defaultWebhookUrls, deliverWebhook, signPayload, verifyWebhookSignature } from "./webhooks";
+export { runWatchlist, type WatchlistRunItem, type WatchlistRunOptions, type WatchlistRunResult } from "./run";
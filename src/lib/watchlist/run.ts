@@ -0,0 +1,119 @@
+/**
+ * Scheduled re-analysis of watchlist entries (called by a cron job via /api/watchlist/run):
+ * analyze each due entry, save a snapshot, evaluate its alert rules against the previous
+ * snapshot and deliver matches to the entry's webhooks.
+ */
+
+import { analyzeToken, errorStatus } from "@/lib/analyze";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { createMemoProvider, getDataProvider, withCache, type DataProvider } from "@/lib/providers";
+import { loadRuleset } from "@/lib/scoring";
+import { listSnapshots, recordSnapshot } from "@/lib/snapshots";
+import { envInt } from "@/lib/utils";
+import { evaluateAlerts } from "./alerts";
+import { listEntries, newId, updateEntries } from "./store";
+import type { Alert, AlertPayload, DeliveryRecord, WatchlistEntry } from "./types";
+import { defaultWebhookUrls, deliverWebhook } from "./webhooks";
+
+export interface WatchlistRunItem {
+  entryId: string;
+  mint: string;
+  ok: boolean;
+  score?: number;
+  snapshotId?: string;
+  alerts: Alert[];
+  deliveries: Array<Pick<DeliveryRecord, "url" | "ok" | "status" | "error">>;
+  error?: string;
+  status?: number;
+}
+
+export interface WatchlistRunResult {
+  checked: WatchlistRunItem[];
+  /** Entries not due yet (interval not elapsed). */
+  skipped: number;
+}
+
+export interface WatchlistRunOptions {
+  /** Re-analyze regardless of interval. */
+  force?: boolean;
+  /** Only these entries. */
+  ids?: string[];
+}
+
+function isDue(entry: WatchlistEntry, now: number): boolean {
+  return entry.lastCheckedAt === undefined || now - entry.lastCheckedAt >= entry.intervalMinutes * 60_000;
+}
+
+async function checkEntry(entry: WatchlistEntry, provider: DataProvider): Promise<WatchlistRunItem> {
+  const item: WatchlistRunItem = { entryId: entry.id, mint: entry.mint, ok: false, alerts: [], deliveries: [] };
+  try {
+    const ruleset = await loadRuleset(entry.ruleset);
+    if (!ruleset) throw new Error(`Unknown ruleset "${entry.ruleset}"`);
+    const previous = (await listSnapshots(entry.mint)).at(-1);
+    const result = await analyzeToken(entry.mint, withCache(provider), ruleset);
+    const snapshotId = provider.offline ? undefined : await recordSnapshot(result);
+    item.ok = true;
+    item.score = result.score;
+    item.snapshotId = snapshotId;
+    item.alerts = evaluateAlerts(entry.rules, result, previous?.result);
+
+    const urls = entry.webhooks.length > 0 ? entry.webhooks : defaultWebhookUrls();
+    if (item.alerts.length > 0 && urls.length > 0) {
+      const payload: AlertPayload = {
+        event: "watchlist.alert",
+        id: newId(),
+        sentAt: Date.now(),
+        entry: { id: entry.id, mint: entry.mint, label: entry.label },
+        alerts: item.alerts,
+        score: result.score,
+        severity: result.severity,
+        previousScore: previous?.result.score,
+        snapshotId,
+        previousSnapshotId: previous?.id,
+      };
+      for (const url of urls) {
+        const { ok, status, error } = await deliverWebhook(url, payload);
+        item.deliveries.push({ url, ok, status, error });
+      }
+    }
+  } catch (err) {
+    item.error = err instanceof Error ? err.message : "Analysis error";
+    item.status = errorStatus(err);
+  }
+  return item;
+}
+
+/** Records the outcome of one check on its entry. */
+function saveOutcome(item: WatchlistRunItem, checkedAt: number): Promise<void> {
+  return updateEntries((stored) => {
+    const entry = stored.find((e) => e.id === item.entryId);
+    if (!entry) return; // deleted during the run
+    entry.lastCheckedAt = checkedAt;
+    entry.lastError = item.error;
+    if (item.ok) {
+      entry.lastScore = item.score;
+      entry.lastSnapshotId = item.snapshotId ?? entry.lastSnapshotId;
+    }
+  });
+}
+
+/**
+ * Re-analyzes due entries (WATCHLIST_CONCURRENCY at a time, default 2), least recently checked
+ * first, and records the outcome on each entry as soon as its check finishes: a run cut short by
+ * maxDuration keeps what it did, and the next run continues with the entries it did not reach.
+ */
+export async function runWatchlist(options: WatchlistRunOptions = {}): Promise<WatchlistRunResult> {
+  const now = Date.now();
+  const entries = (await listEntries()).filter((e) => !options.ids || options.ids.includes(e.id));
+  const due = entries
+    .filter((e) => options.force || isDue(e, now))
+    .sort((a, b) => (a.lastCheckedAt ?? 0) - (b.lastCheckedAt ?? 0));
+  // Entries of the same creator share upstream calls within one run
+  const provider = createMemoProvider(getDataProvider());
+  const checked = await mapWithConcurrency(due, envInt("WATCHLIST_CONCURRENCY", 2), async (e) => {
+    const item = await checkEntry(e, provider);
+    await saveOutcome(item, now);
+    return item;
+  });
+  return { checked, skipped: entries.length - due.length };
+}
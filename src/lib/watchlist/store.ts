@@ -0,0 +1,87 @@
+/**
+ * Watchlist storage: entries in WATCHLIST_DIR/entries.json, the webhook delivery log in
+ * WATCHLIST_DIR/deliveries.jsonl (default WATCHLIST_DIR: "data/watchlist").
+ */
+
+import { randomBytes } from "crypto";
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { DeliveryRecord, WatchlistEntry } from "./types";
+
+export function watchlistDir(): string {
+  return path.resolve(process.cwd(), process.env.WATCHLIST_DIR?.trim() || "data/watchlist");
+}
+
+function entriesFile(): string {
+  return path.join(watchlistDir(), "entries.json");
+}
+
+function deliveriesFile(): string {
+  return path.join(watchlistDir(), "deliveries.jsonl");
+}
+
+export function newId(): string {
+  return `${Date.now().toString(36)}-${randomBytes(3).toString("hex")}`;
+}
+
+export async function listEntries(): Promise<WatchlistEntry[]> {
+  try {
+    return JSON.parse(await readFile(entriesFile(), "utf8")) as WatchlistEntry[];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+}
+
+export async function getEntry(id: string): Promise<WatchlistEntry | undefined> {
+  return (await listEntries()).find((e) => e.id === id);
+}
+
+// Read-modify-write of entries.json is serialized within the process
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Applies `update` to the stored entries and writes them back atomically. Returns what `update` returns.
+ */
+export function updateEntries<T>(update: (entries: WatchlistEntry[]) => T): Promise<T> {
+  const run = writeQueue.then(async () => {
+    const entries = await listEntries();
+    const out = update(entries);
+    const file = entriesFile();
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(entries, null, 2));
+    await rename(`${file}.tmp`, file);
+    return out;
+  });
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+export async function appendDelivery(record: DeliveryRecord): Promise<void> {
+  const file = deliveriesFile();
+  await mkdir(path.dirname(file), { recursive: true });
+  await appendFile(file, JSON.stringify(record) + "\n");
+}
+
+/** Delivery log, newest first. */
+export async function listDeliveries(filter: { entryId?: string; limit?: number } = {}): Promise<DeliveryRecord[]> {
+  let text: string;
+  try {
+    text = await readFile(deliveriesFile(), "utf8");
+  } catch {
+    return [];
+  }
+  const records: DeliveryRecord[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as DeliveryRecord);
+    } catch {
+      // Torn line from an interrupted write; skip it
+    }
+  }
+  return records
+    .filter((r) => !filter.entryId || r.entryId === filter.entryId)
+    .reverse()
+    .slice(0, filter.limit ?? 100);
+}
@@ -0,0 +1,79 @@
+/**
+ * Watchlist: mints re-analyzed on a schedule, with alert rules evaluated against the new
+ * result (and the previous snapshot) and matches delivered to webhooks.
+ */
+
+import type { Condition } from "@/lib/scoring";
+
+export type AlertRule =
+  /** Score fell below `threshold` (was at or above it, or first check). */
+  | { id: string; type: "score_below"; threshold: number }
+  /** Mint or freeze authority was revoked and is set again. */
+  | { id: string; type: "authority_enabled"; authority: "mint" | "freeze" }
+  /** Total liquidity fell by at least `percent` since the previous check. */
+  | { id: string; type: "liquidity_drop"; percent: number }
+  /** Creator's share dropped below 1% (`creatorSold` became true). */
+  | { id: string; type: "creator_sold" }
+  /**
+   * Any condition over the result, in the scoring condition language. Fields start with
+   * "result" (new analysis) or "previous" (last snapshot). Fires when it starts matching.
+   */
+  | { id: string; type: "condition"; when: Condition; label?: string };
+
+export type AlertRuleType = AlertRule["type"];
+
+export interface WatchlistEntry {
+  id: string;
+  mint: string;
+  label?: string;
+  rules: AlertRule[];
+  /** Webhook URLs for this entry; empty = WATCHLIST_WEBHOOK_URLS. */
+  webhooks: string[];
+  /** Minimum time between re-analyses. */
+  intervalMinutes: number;
+  /** Ruleset name (default: RISK_RULESET or "default"). */
+  ruleset?: string;
+  createdAt: number;
+  updatedAt: number;
+  lastCheckedAt?: number;
+  lastScore?: number;
+  lastSnapshotId?: string;
+  /** Error of the last re-analysis, cleared on success. */
+  lastError?: string;
+}
+
+export interface Alert {
+  ruleId: string;
+  type: AlertRuleType;
+  message: string;
+}
+
+/** Body of a webhook POST. */
+export interface AlertPayload {
+  event: "watchlist.alert";
+  /** Unique per payload; receivers can use it to drop duplicates. */
+  id: string;
+  sentAt: number;
+  entry: { id: string; mint: string; label?: string };
+  alerts: Alert[];
+  score: number;
+  severity: "high" | "medium" | "low";
+  previousScore?: number;
+  snapshotId?: string;
+  previousSnapshotId?: string;
+}
+
+/** One webhook attempt series, as stored in the delivery log. */
+export interface DeliveryRecord {
+  id: string;
+  payloadId: string;
+  entryId: string;
+  mint: string;
+  url: string;
+  ok: boolean;
+  /** HTTP status of the last attempt (absent on network failure). */
+  status?: number;
+  retries: number;
+  error?: string;
+  deliveredAt: number;
+}
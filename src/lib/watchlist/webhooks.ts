@@ -0,0 +1,196 @@
+/**
+ * Outgoing webhooks: signed JSON POSTs with retries (shared request executor, budget per host).
+ *
+ * Signature: HMAC-SHA256 over "<timestamp>.<body>" with WEBHOOK_SECRET, sent as
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: sha256=<hex>
+ * Without WEBHOOK_SECRET payloads are sent unsigned.
+ *
+ * Targets must be public: URLs naming or resolving to loopback, private, link-local or other
+ * reserved addresses are refused (WEBHOOK_ALLOW_PRIVATE=on allows them, e.g. for the local sink),
+ * and redirects are not followed.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { lookup } from "dns/promises";
+import { isIP } from "net";
+import {
+  createRequestExecutor,
+  emptyRequestStats,
+  withRequestStats,
+  type RequestExecutor,
+} from "@/lib/request-executor";
+import { envInt } from "@/lib/utils";
+import { appendDelivery, newId } from "./store";
+import type { AlertPayload, DeliveryRecord } from "./types";
+
+/** Signatures older than this are rejected by verifyWebhookSignature. */
+const MAX_SIGNATURE_AGE_S = 300;
+
+export function signPayload(body: string, timestamp: number, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Checks a received webhook (for receivers and the local sink). False if the signature is
+ * missing, wrong or older than five minutes.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  headers: { get(name: string): string | null },
+  secret: string,
+  now = Date.now()
+): boolean {
+  const timestamp = Number(headers.get("x-webhook-timestamp"));
+  const signature = headers.get("x-webhook-signature") ?? "";
+  if (!Number.isFinite(timestamp) || Math.abs(now / 1000 - timestamp) > MAX_SIGNATURE_AGE_S) return false;
+  const expected = Buffer.from(signPayload(body, timestamp, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function allowPrivateTargets(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE?.trim().toLowerCase() === "on";
+}
+
+/** IPv4 ranges that are not publicly routable: [first octets, prefix length]. */
+const RESERVED_IPV4: Array<[number[], number]> = [
+  [[0], 8],
+  [[10], 8],
+  [[100, 64], 10],
+  [[127], 8],
+  [[169, 254], 16],
+  [[172, 16], 12],
+  [[192, 0, 0], 24],
+  [[192, 168], 16],
+  [[198, 18], 15],
+  [[224], 3],
+];
+
+function isReservedIpv4(ip: string): boolean {
+  const n = ip.split(".").reduce((acc, part) => acc * 256 + Number(part), 0);
+  return RESERVED_IPV4.some(([octets, bits]) => {
+    const base = [...octets, 0, 0, 0, 0].slice(0, 4).reduce((acc, o) => acc * 256 + o, 0);
+    const size = 2 ** (32 - bits);
+    return n >= base && n < base + size;
+  });
+}
+
+/** True for loopback, private, link-local, multicast and other non-public addresses. */
+function isReservedAddress(ip: string): boolean {
+  const addr = ip.replace(/^\[|\]$/g, "").toLowerCase();
+  if (isIP(addr) === 4) return isReservedIpv4(addr);
+  if (isIP(addr) !== 6) return false;
+  // IPv4-mapped (URL hosts spell them in hex: ::ffff:7f00:1)
+  const mapped = addr.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isReservedIpv4(mapped[1]);
+  const mappedHex = addr.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [hi, lo] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isReservedIpv4(`${hi >> 8}.${hi & 255}.${lo >> 8}.${lo & 255}`);
+  }
+  return (
+    addr === "::" ||
+    addr === "::1" ||
+    /^f[cd]/.test(addr) || // unique local fc00::/7
+    /^fe[89ab]/.test(addr) || // link-local fe80::/10
+    /^ff/.test(addr) // multicast
+  );
+}
+
+/**
+ * Why a webhook URL cannot be used, judged from the URL alone (scheme, localhost names,
+ * reserved IP literals); null if it is acceptable. Hostnames are checked again on delivery.
+ */
+export function webhookUrlProblem(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "not a URL";
+  }
+  if (!["http:", "https:"].includes(parsed.protocol)) return "not an http(s) URL";
+  if (allowPrivateTargets()) return null;
+  const host = parsed.hostname.toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost") || isReservedAddress(host)) {
+    return "targets a private or loopback address";
+  }
+  return null;
+}
+
+/** Throws if the URL is unacceptable or its host resolves to a reserved address. */
+async function assertPublicTarget(url: string): Promise<void> {
+  const problem = webhookUrlProblem(url);
+  if (problem) throw new Error(`Webhook URL ${problem}`);
+  if (allowPrivateTargets()) return;
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  if (isIP(host)) return;
+  const addresses = await lookup(host, { all: true });
+  if (addresses.some((a) => isReservedAddress(a.address))) {
+    throw new Error(`Webhook URL host ${host} resolves to a private or loopback address`);
+  }
+}
+
+/** Default webhook URLs (comma-separated WATCHLIST_WEBHOOK_URLS) for entries without their own. */
+export function defaultWebhookUrls(): string[] {
+  return (process.env.WATCHLIST_WEBHOOK_URLS ?? "")
+    .split(",")
+    .map((u) => u.trim())
+    .filter(Boolean);
+}
+
+let executor: RequestExecutor | undefined;
+
+function webhookExecutor(): RequestExecutor {
+  executor ??= createRequestExecutor("Webhook", {
+    maxRetries: envInt("WEBHOOK_MAX_RETRIES", 2),
+    baseDelayMs: 500,
+    maxDelayMs: 5000,
+    maxConcurrency: 4,
+    requestsPerSecond: 5,
+    timeoutMs: envInt("WEBHOOK_TIMEOUT_MS", 10000),
+  });
+  return executor;
+}
+
+/** POSTs a payload to one URL and appends the outcome to the delivery log. */
+export async function deliverWebhook(url: string, payload: AlertPayload): Promise<DeliveryRecord> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "X-Webhook-Id": payload.id,
+    "X-Webhook-Timestamp": String(timestamp),
+  };
+  const secret = process.env.WEBHOOK_SECRET?.trim();
+  if (secret) headers["X-Webhook-Signature"] = signPayload(body, timestamp, secret);
+
+  const stats = emptyRequestStats();
+  const record: DeliveryRecord = {
+    id: newId(),
+    payloadId: payload.id,
+    entryId: payload.entry.id,
+    mint: payload.entry.mint,
+    url,
+    ok: false,
+    retries: 0,
+    deliveredAt: Date.now(),
+  };
+  try {
+    await assertPublicTarget(url);
+    const host = new URL(url).host;
+    const res = await withRequestStats(stats, () =>
+      webhookExecutor().execute(host, url, { method: "POST", headers, body, redirect: "manual" })
+    );
+    record.status = res.status;
+    record.ok = res.ok;
+    if (!res.ok) record.error = (await res.text()).slice(0, 200) || `HTTP ${res.status}`;
+  } catch (err) {
+    // Retries exhausted (message carries the last status) or network failure
+    record.error = err instanceof Error ? err.message : "Delivery failed";
+  }
+  record.retries = stats.retries;
+  record.deliveredAt = Date.now();
+  await appendDelivery(record);
+  return record;
+}